@@ -0,0 +1,93 @@
+/**
+ * Store Definition Check
+ * Validates every store definition (stores/*.json) and runs its tests against recorded fixtures
+ *
+ * Usage:
+ *   pnpm check:stores
+ *   TRACKING_FIXTURES=record pnpm check:stores   # fetch the test pages with HTTP_FAST first
+ */
+
+import { readStoreDefinitions, getStoreDefinitionsDir, StoreDefinition, StoreDefinitionTest } from './tracking/store-definitions.js';
+import { getAdapterForUrl, registerStoreDefinitions, HtmlDocument } from './tracking/adapters/index.js';
+import { HttpFastStrategy } from './tracking/strategies/http-fast.js';
+import { getFixtureMode, loadFixture } from './tracking/fixtures.js';
+import { ExtractedProduct } from './tracking/types.js';
+
+/**
+ * Expected values the extraction got wrong, as "field: expected X, got Y"
+ */
+function compare(expect: StoreDefinitionTest['expect'], extracted: ExtractedProduct | null): string[] {
+    const actual: Record<string, unknown> = {
+        title: extracted?.title,
+        price: extracted?.price.amount,
+        listPrice: extracted?.price.listPrice,
+        currency: extracted?.price.currency,
+        sku: extracted?.sku,
+        availability: extracted?.listing?.availability,
+    };
+    return Object.entries(expect)
+        .filter(([field, value]) => actual[field] !== value)
+        .map(([field, value]) => `${field}: expected ${JSON.stringify(value)}, got ${JSON.stringify(actual[field] ?? null)}`);
+}
+
+async function runTest(definition: StoreDefinition, test: StoreDefinitionTest): Promise<string[]> {
+    const adapter = getAdapterForUrl(test.url);
+    if (adapter.id !== definition.id) {
+        return [`${test.url} is not on the definition's domains (the ${adapter.id} adapter handles it)`];
+    }
+
+    if (getFixtureMode() === 'record') {
+        await new HttpFastStrategy().track({ id: `check-${definition.id}`, merchant: definition.id, original_url: test.url, title: definition.name || definition.id });
+    }
+    const fixture = loadFixture('http', test.url) || loadFixture('page', test.url);
+    if (!fixture) {
+        return [`no fixture recorded for ${test.url} (run with TRACKING_FIXTURES=record)`];
+    }
+
+    const extracted = await adapter.extract(new HtmlDocument(fixture.html, fixture.finalUrl || test.url));
+    return compare(test.expect, extracted);
+}
+
+async function main() {
+    console.log('🗂️  === STORE DEFINITION CHECK ===');
+    console.log(`Directory: ${getStoreDefinitionsDir()}\n`);
+
+    const { definitions, invalid } = readStoreDefinitions();
+    registerStoreDefinitions();
+    let failures = invalid.size;
+
+    for (const [file, errors] of invalid) {
+        console.log(`❌ ${file}`);
+        errors.forEach(error => console.log(`   ${error}`));
+    }
+
+    for (const definition of definitions) {
+        const owner = getAdapterForUrl(`https://${definition.domains[0]}/`);
+        if (owner.id !== definition.id) {
+            console.log(`❌ ${definition.file}: the ${owner.id} adapter already handles ${definition.domains[0]}`);
+            failures++;
+            continue;
+        }
+
+        const tests = definition.tests || [];
+        if (tests.length === 0) {
+            console.log(`⚠️  ${definition.file}: valid, but has no tests`);
+            continue;
+        }
+
+        for (const test of tests) {
+            const errors = await runTest(definition, test);
+            console.log(`${errors.length === 0 ? '✅' : '❌'} ${definition.file}: ${test.url}`);
+            errors.forEach(error => console.log(`   ${error}`));
+            if (errors.length > 0) failures++;
+        }
+    }
+
+    console.log(`\n${failures === 0 ? '✅' : '❌'} ${definitions.length} valid definition(s), ${invalid.size} invalid, ${failures} failure(s)`);
+    if (failures > 0) process.exit(1);
+}
+
+main().catch(error => {
+    console.error('❌ Store check failed:', error);
+    process.exit(1);
+});
@@ -17,7 +17,7 @@ async function main() {
         // Run price tracking with production settings
         await trackPrices({
             limit: 1000, // Track up to 1000 products
-            concurrency: 1, // Reduced to 1 to prevent OOM on 512MB Render instance
+            concurrency: parseInt(process.env.TRACKING_CONCURRENCY || '4', 10), // Browser page pool caps tabs by available memory
             force: forceMode, // Use force mode if FORCE_MODE=true in env
         });
         
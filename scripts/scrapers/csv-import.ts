@@ -5,6 +5,12 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { getFixtureMode, loadFixture, saveFixture } from '../tracking/fixtures';
+import { parsePrice, getStoreLocale } from '../utils/price-parser';
+import { readStructuredData, pickOffer } from '../tracking/adapters/structured-data';
+import { amazonAdapter } from '../tracking/adapters/amazon';
+import { getAdapterForUrl, HtmlDocument } from '../tracking/adapters';
+import { findStoreDefinition } from '../tracking/store-definitions';
 
 export interface CSVProduct {
     url: string;
@@ -123,7 +129,7 @@ export function detectMerchantFromUrl(url: string): string | null {
         return 'falabella';
     }
 
-    return null;
+    return findStoreDefinition(url)?.id || null;
 }
 
 /**
@@ -133,22 +139,10 @@ export async function fetchProductFromUrl(url: string, merchant: string): Promis
     console.log(`🔍 Fetching ${merchant} product: ${url.substring(0, 60)}...`);
 
     try {
-        const response = await fetch(url, {
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-                'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-                'Accept-Language': 'es-CO,es;q=0.9,en;q=0.8',
-            }
-        });
-
-        if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-
-        const html = await response.text();
+        const html = await fetchHtml(url);
 
         // Extract data based on merchant
-        const productData = extractProductData(html, url, merchant);
+        const productData = await extractProductData(html, url, merchant);
 
         if (!productData.price) {
             console.warn(`⚠️ No price found for ${url}`);
@@ -161,50 +155,89 @@ export async function fetchProductFromUrl(url: string, merchant: string): Promis
     }
 }
 
+/**
+ * Fetch page HTML, or the store's data endpoint like HTTP_FAST does
+ * (TRACKING_FIXTURES=record/replay shares HTTP_FAST's fixtures)
+ */
+async function fetchHtml(url: string): Promise<string> {
+    const target = getAdapterForUrl(url).getDataUrl?.(url) || url;
+    const mode = getFixtureMode();
+    const fixture = mode === 'replay' ? loadFixture('http', target) : null;
+    if (mode === 'replay' && !fixture) {
+        throw new Error(`No http fixture recorded for ${target}`);
+    }
+
+    const response = fixture
+        ? { ok: fixture.status >= 200 && fixture.status < 300, status: fixture.status, statusText: fixture.statusText || '', url: fixture.finalUrl, text: async () => fixture.html }
+        : await fetch(target, {
+            headers: {
+                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+                'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+                'Accept-Language': 'es-CO,es;q=0.9,en;q=0.8',
+            }
+        });
+
+    const html = await response.text();
+    if (mode === 'record') {
+        saveFixture({ kind: 'http', url: target, finalUrl: response.url || target, status: response.status, statusText: response.statusText, html });
+    }
+
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return html;
+}
+
 /**
  * Extract product data from HTML based on merchant
  */
-function extractProductData(html: string, url: string, merchant: string): any {
+async function extractProductData(html: string, url: string, merchant: string): Promise<any> {
     switch (merchant) {
         case 'mercadolibre':
             return extractMercadoLibreData(html, url);
         case 'amazon':
             return extractAmazonData(html, url);
         default:
-            return { url, title: 'Unknown', price: 0, currency: 'COP' };
+            return extractWithAdapter(html, url);
     }
 }
 
+/**
+ * Other stores: the tracker's adapter for the URL
+ */
+async function extractWithAdapter(html: string, url: string): Promise<any> {
+    const extracted = await getAdapterForUrl(url).extract(new HtmlDocument(html, url));
+    return {
+        url,
+        title: extracted?.title || 'Unknown',
+        price: extracted?.price.amount || 0,
+        currency: extracted?.price.currency || getStoreLocale(new URL(url).hostname).currency,
+    };
+}
+
 /**
  * Extract MercadoLibre product data from HTML
  */
 export function extractMercadoLibreData(html: string, url?: string): any {
+    const locale = getStoreLocale(url ? new URL(url).hostname : 'mercadolibre.com.co');
     let price = 0;
-    let currency = 'COP';
+    let currency = locale.currency;
     let title = '';
 
-    // Method 1: Try JSON-LD (most reliable)
-    const jsonLdMatch = html.match(/<script type="application\/ld\+json"[^>]*>([\s\S]*?)<\/script>/i);
-    if (jsonLdMatch) {
-        try {
-            const jsonLd = JSON.parse(jsonLdMatch[1]);
-            if (jsonLd.offers?.price) {
-                price = parseFloat(jsonLd.offers.price);
-                currency = jsonLd.offers.priceCurrency || 'COP';
-            }
-            if (jsonLd.name) {
-                title = jsonLd.name;
-            }
-        } catch (e) {
-            // Continue to other methods
-        }
+    // Method 1: Structured data (JSON-LD, microdata, RDFa - most reliable)
+    const offer = pickOffer(readStructuredData(html, url || 'https://www.mercadolibre.com.co'));
+    if (offer) {
+        price = offer.price.amount || 0;
+        currency = offer.price.currency || currency;
+        title = offer.productName || '';
     }
 
     // Method 2: Try meta tags
     if (!price) {
         const priceMatch = html.match(/<meta property="og:price:amount" content="([^"]+)"/i);
         if (priceMatch) {
-            price = parseFloat(priceMatch[1].replace(/[^0-9.]/g, ''));
+            price = parsePrice(priceMatch[1], locale).amount || 0;
         }
     }
 
@@ -217,7 +250,7 @@ export function extractMercadoLibreData(html: string, url?: string): any {
                 // Navigate through the object to find price
                 const priceData = JSON.stringify(preloaded).match(/"price":(\d+\.?\d*)/i);
                 if (priceData) {
-                    price = parseFloat(priceData[1]);
+                    price = parsePrice(Number(priceData[1]), locale).amount || 0;
                 }
             } catch (e) {
                 // Continue
@@ -238,9 +271,8 @@ export function extractMercadoLibreData(html: string, url?: string): any {
         for (const pattern of pricePatterns) {
             const match = html.match(pattern);
             if (match) {
-                const priceStr = match[1].replace(/[^0-9.]/g, '');
-                const parsedPrice = parseFloat(priceStr);
-                if (parsedPrice > 0) {
+                const parsedPrice = parsePrice(match[1], locale).amount;
+                if (parsedPrice && parsedPrice > 0) {
                     price = parsedPrice;
                     break;
                 }
@@ -283,16 +315,20 @@ export function extractMercadoLibreData(html: string, url?: string): any {
 }
 
 /**
- * Extract Amazon product data from HTML
+ * Extract Amazon product data from HTML (same adapter the tracker uses)
  */
-function extractAmazonData(html: string, url: string): any {
-    // Similar extraction logic for Amazon
-    // This is a placeholder - implement based on Amazon's HTML structure
+async function extractAmazonData(html: string, url: string): Promise<any> {
+    const extracted = await amazonAdapter.extract(new HtmlDocument(html, url));
+    const price = extracted?.price.amount || 0;
+    const currency = extracted?.price.currency || getStoreLocale(new URL(url).hostname).currency;
+
+    console.log(`   Extracted: ${(extracted?.title || '').substring(0, 50)}... - $${price} ${currency}`);
+
     return {
-        url,
-        title: 'Amazon Product',
-        price: 0,
-        currency: 'COP',
+        url: amazonAdapter.getCleanUrl!(url),
+        title: extracted?.title || 'Unknown Product',
+        price,
+        currency,
     };
 }
 
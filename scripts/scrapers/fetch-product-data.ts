@@ -1,4 +1,7 @@
 import { extractMercadoLibreData } from './csv-import';
+import { getAdapterForUrl, HtmlDocument } from '../tracking/adapters';
+import { getStoreLocale } from '../utils/price-parser';
+import { findStoreDefinition } from '../tracking/store-definitions';
 
 export interface FetchedProduct {
     url: string;
@@ -23,7 +26,7 @@ function detectMerchant(url: string): string | null {
     if (hostname.includes('nike')) return 'nike';
     if (hostname.includes('adidas')) return 'adidas';
 
-    return null;
+    return findStoreDefinition(url)?.id || null;
 }
 
 /**
@@ -38,8 +41,9 @@ export async function fetchProductData(url: string): Promise<FetchedProduct | nu
     }
 
     try {
-        // Fetch HTML
-        const response = await fetch(url, {
+        // Fetch HTML (or the store's product data endpoint)
+        const adapter = getAdapterForUrl(url);
+        const response = await fetch(adapter.getDataUrl?.(url) || url, {
             headers: {
                 'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
             },
@@ -57,12 +61,19 @@ export async function fetchProductData(url: string): Promise<FetchedProduct | nu
 
         switch (merchant) {
             case 'mercadolibre':
-                data = extractMercadoLibreData(html);
+                data = extractMercadoLibreData(html, url);
                 break;
-            // TODO: Add extractors for other stores
-            default:
-                console.warn(`⚠️  No extractor for merchant: ${merchant}`);
-                return null;
+            default: {
+                // Same adapter the tracker uses for this store
+                const extracted = await adapter.extract(new HtmlDocument(html, url));
+                data = extracted && extracted.price.amount !== null
+                    ? {
+                        title: extracted.title,
+                        price: extracted.price.amount,
+                        currency: extracted.price.currency || getStoreLocale(new URL(url).hostname).currency,
+                    }
+                    : null;
+            }
         }
 
         if (!data || !data.price) {
@@ -3,6 +3,9 @@
  * Fetches top-selling products from MercadoLibre Colombia using their official API
  */
 
+// Overridable so tracking can run against a local stand-in for the API
+export const MERCADOLIBRE_API_URL = process.env.MERCADOLIBRE_API_URL || 'https://api.mercadolibre.com';
+
 export interface MLProduct {
     id: string;
     title: string;
@@ -11,6 +14,46 @@ export interface MLProduct {
     permalink: string;
     thumbnail: string;
     sold_quantity?: number;
+    category_id?: string;
+}
+
+export interface MLItem {
+    id: string;
+    title: string;
+    price: number | null;
+    original_price?: number | null;
+    currency_id: string;
+    status: 'active' | 'paused' | 'closed' | 'under_review' | 'inactive';
+    available_quantity?: number;
+    seller_id?: number;
+    official_store_id?: number | null;
+    shipping?: { logistic_type?: string };
+    permalink: string;
+}
+
+export interface MLCatalogProduct {
+    id: string;
+    name: string;
+    status: string;
+    buy_box_winner: {
+        item_id: string;
+        price: number;
+        original_price?: number | null;
+        currency_id: string;
+        seller_id?: number;
+        official_store_id?: number | null;
+        shipping?: { logistic_type?: string };
+    } | null;
+}
+
+/**
+ * Non-2xx answer from the API (other than 404), with its status
+ */
+export class MercadoLibreApiError extends Error {
+    constructor(public status: number, statusText: string) {
+        super(`MercadoLibre API error: ${status} ${statusText}`);
+        this.name = 'MercadoLibreApiError';
+    }
 }
 
 export interface MLSearchResponse {
@@ -31,7 +74,7 @@ export async function fetchMercadoLibreBestSellers(
     category: string = 'MCO1000',
     limit: number = 100
 ): Promise<MLProduct[]> {
-    const url = `https://api.mercadolibre.com/sites/MCO/search?category=${category}&sort=sold_quantity_desc&limit=${limit}`;
+    const url = `${MERCADOLIBRE_API_URL}/sites/MCO/search?category=${category}&sort=sold_quantity_desc&limit=${limit}`;
 
     console.log(`🔍 Fetching MercadoLibre best sellers from category ${category}...`);
 
@@ -58,6 +101,44 @@ export async function fetchMercadoLibreBestSellers(
     }
 }
 
+/**
+ * Request a MercadoLibre API resource (returns null for unknown ids)
+ */
+async function fetchMercadoLibreApi<T>(path: string): Promise<T | null> {
+    const headers: Record<string, string> = {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        'Accept': 'application/json',
+    };
+    if (process.env.MERCADOLIBRE_ACCESS_TOKEN) {
+        headers['Authorization'] = `Bearer ${process.env.MERCADOLIBRE_ACCESS_TOKEN}`;
+    }
+
+    const response = await fetch(`${MERCADOLIBRE_API_URL}${path}`, { headers });
+
+    if (response.status === 404) {
+        return null;
+    }
+    if (!response.ok) {
+        throw new MercadoLibreApiError(response.status, response.statusText);
+    }
+
+    return await response.json() as T;
+}
+
+/**
+ * Fetch a single listing (e.g. 'MCO123456789')
+ */
+export async function fetchMercadoLibreItem(itemId: string): Promise<MLItem | null> {
+    return fetchMercadoLibreApi<MLItem>(`/items/${itemId}`);
+}
+
+/**
+ * Fetch a catalog product (e.g. 'MCO19615370') with its buy box winner
+ */
+export async function fetchMercadoLibreCatalogProduct(productId: string): Promise<MLCatalogProduct | null> {
+    return fetchMercadoLibreApi<MLCatalogProduct>(`/products/${productId}`);
+}
+
 /**
  * Fetch products from multiple categories
  */
@@ -72,7 +153,8 @@ export async function fetchMultipleCategories(
     for (const category of categories) {
         try {
             const products = await fetchMercadoLibreBestSellers(category, productsPerCategory);
-            allProducts.push(...products);
+            // Keep the requested top-level category (results carry leaf category ids)
+            allProducts.push(...products.map(product => ({ ...product, category_id: category })));
 
             // Rate limiting: wait 500ms between requests
             await new Promise(resolve => setTimeout(resolve, 500));
@@ -102,3 +184,11 @@ export const POPULAR_CATEGORIES = {
     TOYS: 'MCO1132',                  // Juegos y Juguetes
     BOOKS: 'MCO3025',                 // Libros, Revistas y Comics
 };
+
+/**
+ * Category name stored on products (e.g. 'MCO1055' -> 'phones'), null for other categories
+ */
+export function getCategoryName(categoryId: string): string | null {
+    const entry = Object.entries(POPULAR_CATEGORIES).find(([, id]) => id === categoryId);
+    return entry ? entry[0].toLowerCase() : null;
+}
@@ -4,6 +4,11 @@
  */
 
 import puppeteer, { Browser, Page } from 'puppeteer';
+import { parsePrice, getStoreLocale } from '../utils/price-parser';
+import { getAdapterForUrl, PageDocument } from '../tracking/adapters';
+import { findStoreDefinition } from '../tracking/store-definitions';
+import type { ProductVariant } from '../utils/variant-key';
+import type { UrlListEntry } from './url-list-import';
 
 export interface FetchedProduct {
     url: string;
@@ -11,6 +16,8 @@ export interface FetchedProduct {
     price: number;
     currency: string;
     merchant: string;
+    /** Variant the price was read for */
+    variant: ProductVariant | null;
 }
 
 /**
@@ -28,7 +35,7 @@ function detectMerchant(url: string): string | null {
     if (hostname.includes('nike')) return 'nike';
     if (hostname.includes('adidas')) return 'adidas';
 
-    return null;
+    return findStoreDefinition(url)?.id || null;
 }
 
 /**
@@ -36,48 +43,49 @@ function detectMerchant(url: string): string | null {
  */
 async function extractProductData(
     page: Page,
-    merchant: string
+    merchant: string,
+    variant: ProductVariant | null
 ): Promise<{ price: number; currency: string; title: string } | null> {
     try {
+        // Other stores: the same adapter the tracker uses
+        if (merchant !== 'mercadolibre') {
+            const extracted = await getAdapterForUrl(page.url()).extract(new PageDocument(page), variant);
+            if (!extracted || extracted.price.amount === null) return null;
+
+            const currency = extracted.price.currency || getStoreLocale(new URL(page.url()).hostname).currency;
+            return { price: extracted.price.amount, currency, title: extracted.title };
+        }
+
         const result = await page.evaluate((merchantName) => {
             if (merchantName === 'mercadolibre') {
+                // Get title
+                const titleMeta = document.querySelector<HTMLMetaElement>('meta[property="og:title"]');
+                const title = titleMeta?.content || document.title;
+
                 // Try to find price in meta tags (most reliable)
                 const metaPrice = document.querySelector<HTMLMetaElement>('meta[itemprop="price"]');
                 if (metaPrice?.content) {
-                    const price = parseFloat(metaPrice.content);
-
-                    // Get currency from domain
-                    const hostname = window.location.hostname;
-                    let currency = 'COP';
-                    if (hostname.includes('.com.br')) currency = 'BRL';
-                    else if (hostname.includes('.com.mx')) currency = 'MXN';
-                    else if (hostname.includes('.com.ar')) currency = 'ARS';
-                    else if (hostname.includes('.cl')) currency = 'CLP';
-
-                    // Get title
-                    const titleMeta = document.querySelector<HTMLMetaElement>('meta[property="og:title"]');
-                    const title = titleMeta?.content || document.title;
-
-                    return { price, currency, title };
+                    const metaCurrency = document.querySelector<HTMLMetaElement>('meta[itemprop="priceCurrency"]');
+                    return { rawPrice: metaPrice.content, declaredCurrency: metaCurrency?.content || null, title };
                 }
 
                 // Fallback: try to find price in DOM
                 const priceElement = document.querySelector('.andes-money-amount__fraction');
                 if (priceElement?.textContent) {
-                    const priceText = priceElement.textContent.replace(/[^0-9]/g, '');
-                    const price = parseFloat(priceText);
-
-                    const titleMeta = document.querySelector<HTMLMetaElement>('meta[property="og:title"]');
-                    const title = titleMeta?.content || document.title;
-
-                    return { price, currency: 'COP', title };
+                    return { rawPrice: priceElement.textContent, declaredCurrency: null, title };
                 }
             }
 
             return null;
         }, merchant);
 
-        return result;
+        if (!result) return null;
+
+        // Parsed here so the page and the tracker share one price parser
+        const parsed = parsePrice(result.rawPrice, page.url(), { currency: result.declaredCurrency });
+        if (parsed.amount === null) return null;
+
+        return { price: parsed.amount, currency: parsed.currency!, title: result.title };
     } catch (error) {
         console.error(`Error extracting data:`, error);
         return null;
@@ -89,7 +97,7 @@ async function extractProductData(
  */
 export async function fetchProductWithPuppeteer(
     browser: Browser,
-    url: string
+    { url, variant }: UrlListEntry
 ): Promise<FetchedProduct | null> {
     const merchant = detectMerchant(url);
     if (!merchant) {
@@ -115,7 +123,7 @@ export async function fetchProductWithPuppeteer(
         await new Promise(resolve => setTimeout(resolve, 2000));
 
         // Extract data
-        const data = await extractProductData(page, merchant);
+        const data = await extractProductData(page, merchant, variant);
 
         if (!data || !data.price) {
             console.warn(`⚠️  Failed to extract data from ${url}`);
@@ -128,6 +136,7 @@ export async function fetchProductWithPuppeteer(
             price: data.price,
             currency: data.currency,
             merchant,
+            variant,
         };
     } catch (error: any) {
         console.error(`❌ Error fetching ${url}:`, error.message);
@@ -141,13 +150,13 @@ export async function fetchProductWithPuppeteer(
  * Fetch multiple products with Puppeteer
  */
 export async function fetchMultipleProductsWithPuppeteer(
-    urls: string[],
+    entries: UrlListEntry[],
     options: { delay?: number; maxConcurrent?: number } = {}
 ): Promise<FetchedProduct[]> {
     const { delay = 1000, maxConcurrent = 3 } = options;
     const products: FetchedProduct[] = [];
 
-    console.log(`\n🌐 Fetching data for ${urls.length} products with Puppeteer...`);
+    console.log(`\n🌐 Fetching data for ${entries.length} products with Puppeteer...`);
     console.log(`⏱️  Rate limit: ${delay}ms delay, ${maxConcurrent} concurrent requests\n`);
 
     // Launch browser
@@ -158,16 +167,16 @@ export async function fetchMultipleProductsWithPuppeteer(
 
     try {
         // Process in batches
-        for (let i = 0; i < urls.length; i += maxConcurrent) {
-            const batch = urls.slice(i, i + maxConcurrent);
+        for (let i = 0; i < entries.length; i += maxConcurrent) {
+            const batch = entries.slice(i, i + maxConcurrent);
             const batchNum = Math.floor(i / maxConcurrent) + 1;
-            const totalBatches = Math.ceil(urls.length / maxConcurrent);
+            const totalBatches = Math.ceil(entries.length / maxConcurrent);
 
             console.log(`📦 Batch ${batchNum}/${totalBatches} (${batch.length} URLs)...`);
 
             // Fetch batch concurrently
             const results = await Promise.all(
-                batch.map(url => fetchProductWithPuppeteer(browser, url))
+                batch.map(entry => fetchProductWithPuppeteer(browser, entry))
             );
 
             // Add successful results
@@ -179,7 +188,7 @@ export async function fetchMultipleProductsWithPuppeteer(
             }
 
             // Wait before next batch (except for last batch)
-            if (i + maxConcurrent < urls.length) {
+            if (i + maxConcurrent < entries.length) {
                 console.log(`  ⏳ Waiting ${delay}ms...\n`);
                 await new Promise(resolve => setTimeout(resolve, delay));
             }
@@ -188,6 +197,6 @@ export async function fetchMultipleProductsWithPuppeteer(
         await browser.close();
     }
 
-    console.log(`\n✅ Successfully fetched ${products.length}/${urls.length} products`);
+    console.log(`\n✅ Successfully fetched ${products.length}/${entries.length} products`);
     return products;
 }
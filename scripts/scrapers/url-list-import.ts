@@ -1,4 +1,12 @@
 import * as fs from 'fs';
+import { getUrlVariant } from '../tracking/adapters';
+import { buildVariantKey, type ProductVariant } from '../utils/variant-key';
+
+export interface UrlListEntry {
+    url: string;
+    /** Variant to track: the URL's own (e.g. Zara ?v1=) overridden by sku/color/size columns */
+    variant: ProductVariant | null;
+}
 
 /**
  * Simple URL list parser
@@ -6,6 +14,14 @@ import * as fs from 'fs';
  * This makes us independent of Web Scraper's data quality
  */
 export function parseUrlListCSV(filePath: string): string[] {
+    return [...new Set(parseUrlListEntries(filePath).map(entry => entry.url))];
+}
+
+/**
+ * URLs from a CSV with their variants (optional sku, color and size columns)
+ * Two sizes of the same page are two entries
+ */
+export function parseUrlListEntries(filePath: string): UrlListEntry[] {
     const content = fs.readFileSync(filePath, 'utf-8');
     const lines = content.split('\n').filter(line => line.trim());
 
@@ -19,6 +35,11 @@ export function parseUrlListCSV(filePath: string): string[] {
 
     const urlIndex = headers.indexOf('url');
     const orderIndex = headers.indexOf('web_scraper_order');
+    const variantIndexes = {
+        sku: headers.indexOf('sku'),
+        color: headers.indexOf('color'),
+        size: headers.indexOf('size'),
+    };
 
     if (urlIndex === -1) {
         throw new Error('No "url" column found in CSV');
@@ -26,7 +47,7 @@ export function parseUrlListCSV(filePath: string): string[] {
 
     console.log(`📄 Found ${headers.length} columns in CSV`);
 
-    const urls: string[] = [];
+    const entries: UrlListEntry[] = [];
     const seen = new Set<string>();
 
     for (let i = 1; i < lines.length; i++) {
@@ -57,15 +78,40 @@ export function parseUrlListCSV(filePath: string): string[] {
             continue;
         }
 
+        const variant: ProductVariant = { ...getUrlVariant(url) };
+        for (const [field, index] of Object.entries(variantIndexes)) {
+            const value = index >= 0 ? values[index]?.trim().replace(/^"|"$/g, '') : '';
+            if (value) variant[field as keyof ProductVariant] = value;
+        }
+        const variantKey = buildVariantKey(variant);
+
         // Deduplicate
-        if (seen.has(cleanUrl)) {
+        const key = variantKey ? `${cleanUrl}#${variantKey}` : cleanUrl;
+        if (seen.has(key)) {
             continue;
         }
-        seen.add(cleanUrl);
-        urls.push(url); // Use original URL (with params) for fetching
+        seen.add(key);
+        entries.push({ url, variant: variantKey ? variant : null }); // Use original URL (with params) for fetching
+    }
+
+    console.log(`✅ Extracted ${entries.length} unique URLs from CSV`);
+    return entries;
+}
+
+/**
+ * URL list from a plain text file (one URL per line, # comments)
+ * or a CSV with a "url" column
+ */
+export function parseUrlListFile(filePath: string): string[] {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const lines = content.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+
+    if (lines.length > 0 && !lines[0].startsWith('http')) {
+        return parseUrlListCSV(filePath);
     }
 
-    console.log(`✅ Extracted ${urls.length} unique URLs from CSV`);
+    const urls = [...new Set(lines.filter(line => line.startsWith('http')))];
+    console.log(`✅ Read ${urls.length} unique URLs from ${filePath}`);
     return urls;
 }
 
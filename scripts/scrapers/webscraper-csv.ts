@@ -1,4 +1,6 @@
 import * as fs from 'fs';
+import { parsePrice } from '../utils/price-parser';
+import { findStoreDefinition } from '../tracking/store-definitions';
 
 interface WebScraperProduct {
     url: string;
@@ -89,18 +91,15 @@ export function parseWebScraperCSV(filePath: string): WebScraperProduct[] {
         const data1 = values[indices.data1]?.replace(/^"|"$/g, '').trim() || '';
         const data2 = values[indices.data2]?.replace(/^"|"$/g, '').trim() || '';
 
-        // Try to extract price from data columns
-        if (data2 && data2.match(/^\d+[\d,.]*$/)) {
-            // data_2 usually has the main price
-            price = parseFloat(data2.replace(/[,.]/g, ''));
-        } else if (data1 && data1.match(/^\d+[\d,.]*$/)) {
-            // Sometimes it's in data_1
-            price = parseFloat(data1.replace(/[,.]/g, ''));
-        }
+        // Try to extract price from data columns (data_0 holds the currency symbol)
+        const priceText = data2 && data2.match(/^\d+[\d,.]*$/)
+            ? data2 // data_2 usually has the main price
+            : data1 && data1.match(/^\d+[\d,.]*$/) ? data1 : null; // Sometimes it's in data_1
 
-        // Detect currency
-        if (data0 === '$' || data0.includes('$')) {
-            currency = 'COP'; // Assume Colombian Peso for MercadoLibre Colombia
+        if (priceText) {
+            const parsed = parsePrice(`${data0} ${priceText}`, cleanUrl);
+            price = parsed.amount || 0;
+            currency = parsed.currency || currency;
         }
 
         products.push({
@@ -154,5 +153,5 @@ function detectMerchant(url: string): string | null {
     if (url.includes('exito.com')) {
         return 'exito';
     }
-    return null;
+    return findStoreDefinition(url)?.id || null;
 }
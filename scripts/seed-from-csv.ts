@@ -3,7 +3,9 @@
  * Imports products from CSV by adding them to DB, then runs track-prices to get real data
  */
 
-import { parseUrlListCSV } from './scrapers/url-list-import';
+import { parseUrlListEntries } from './scrapers/url-list-import';
+import { buildVariantKey } from './utils/variant-key';
+import { findStoreDefinition } from './tracking/store-definitions';
 import {
     batchInsertProducts,
     normalizeUrl,
@@ -60,7 +62,7 @@ function detectMerchant(url: string): string {
     if (hostname.includes('nike')) return 'nike';
     if (hostname.includes('adidas')) return 'adidas';
 
-    return 'unknown';
+    return findStoreDefinition(url)?.id || 'unknown';
 }
 
 /**
@@ -82,39 +84,42 @@ async function main() {
 
     try {
         // Extract URLs from CSV
-        const urls = parseUrlListCSV(options.csvFile);
+        const entries = parseUrlListEntries(options.csvFile);
 
-        if (urls.length === 0) {
+        if (entries.length === 0) {
             console.log('⚠️  No URLs found in CSV');
             return;
         }
 
         // Limit to requested count
-        const limitedUrls = urls.slice(0, options.count);
-        console.log(`\n🎯 Will process ${limitedUrls.length} URLs`);
+        const limitedEntries = entries.slice(0, options.count);
+        console.log(`\n🎯 Will process ${limitedEntries.length} URLs`);
 
         if (options.dryRun) {
             console.log('\n🔍 DRY RUN - Would insert:');
-            console.log(`   ${limitedUrls.length} products`);
+            console.log(`   ${limitedEntries.length} products`);
             console.log('\nSample URLs:');
-            limitedUrls.slice(0, 5).forEach((url, i) => {
+            limitedEntries.slice(0, 5).forEach(({ url, variant }, i) => {
                 const merchant = detectMerchant(url);
-                console.log(`   ${i + 1}. [${merchant}] ${url.substring(0, 70)}...`);
+                const variantKey = buildVariantKey(variant);
+                console.log(`   ${i + 1}. [${merchant}] ${url.substring(0, 70)}...${variantKey ? ` (${variantKey})` : ''}`);
             });
             return;
         }
 
         // Convert URLs to database format (without prices - will be fetched by track-prices)
-        const dbProducts: ProductInsert[] = limitedUrls.map(url => {
+        const dbProducts: ProductInsert[] = limitedEntries.map(({ url, variant }) => {
             const merchant = detectMerchant(url);
             const normalizedUrl = normalizeUrl(url);
-            const productHash = generateProductHash(merchant, normalizedUrl);
+            const variantKey = buildVariantKey(variant);
+            const productHash = generateProductHash(merchant, normalizedUrl, variantKey);
 
             return {
                 merchant,
                 original_url: url,
                 normalized_url: normalizedUrl,
                 product_hash: productHash,
+                variant_key: variantKey,
                 title: `Product from ${merchant}`, // Placeholder - will be updated by track-prices
                 currency: 'COP', // Default - will be updated by track-prices
             };
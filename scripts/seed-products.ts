@@ -6,12 +6,14 @@
  *   npm run seed:products -- --platform mercadolibre --count 100
  *   npm run seed:products -- --platform all --dry-run
  *   npm run seed:products -- --csv path/to/file.csv --count 100
+ *   npm run seed:products -- --platform amazon --urls path/to/urls.txt
  */
 
 import {
     fetchMercadoLibreBestSellers,
     fetchMultipleCategories,
     POPULAR_CATEGORIES,
+    getCategoryName,
     type MLProduct
 } from './scrapers/mercadolibre';
 import {
@@ -26,6 +28,10 @@ import {
     type ProductInsert,
     type PriceSnapshotInsert
 } from './utils/db';
+import { amazonAdapter, extractAsin } from './tracking/adapters/amazon';
+import { getUrlVariant, registerStoreDefinitions } from './tracking/adapters';
+import { buildVariantKey } from './utils/variant-key';
+import type { FetchedProduct } from './scrapers/puppeteer-fetch';
 
 interface SeedOptions {
     platform: 'mercadolibre' | 'amazon' | 'csv' | 'all';
@@ -33,6 +39,7 @@ interface SeedOptions {
     dryRun: boolean;
     categories?: string[];
     csvFile?: string;
+    urlsFile?: string;
 }
 
 /**
@@ -64,6 +71,9 @@ function parseArgs(): SeedOptions {
                 options.platform = 'csv';
                 options.csvFile = args[++i];
                 break;
+            case '--urls':
+                options.urlsFile = args[++i];
+                break;
         }
     }
 
@@ -84,6 +94,7 @@ function mlProductToDbFormat(mlProduct: MLProduct): ProductInsert {
         product_hash: productHash,
         title: mlProduct.title,
         currency: mlProduct.currency_id,
+        category: mlProduct.category_id ? getCategoryName(mlProduct.category_id) : null,
     };
 }
 
@@ -162,33 +173,34 @@ async function seedFromCSV(options: SeedOptions) {
     console.log(`File: ${options.csvFile}`);
 
     // Import URL parser and Puppeteer fetcher
-    const { parseUrlListCSV } = await import('./scrapers/url-list-import');
+    const { parseUrlListEntries } = await import('./scrapers/url-list-import');
     const { fetchMultipleProductsWithPuppeteer } = await import('./scrapers/puppeteer-fetch');
 
-    // Extract URLs from CSV (ignoring all other data)
-    const urls = parseUrlListCSV(options.csvFile);
+    // Extract URLs from CSV, with the variant of their sku/color/size columns
+    const entries = parseUrlListEntries(options.csvFile);
 
-    if (urls.length === 0) {
+    if (entries.length === 0) {
         console.log('⚠️  No URLs found in CSV');
         return;
     }
 
     // Limit to requested count
-    const limitedUrls = urls.slice(0, options.count);
-    console.log(`\n🎯 Will process ${limitedUrls.length} URLs`);
+    const limitedEntries = entries.slice(0, options.count);
+    console.log(`\n🎯 Will process ${limitedEntries.length} URLs`);
 
     if (options.dryRun) {
         console.log('\n🔍 DRY RUN - Would fetch and insert:');
-        console.log(`   ${limitedUrls.length} products`);
+        console.log(`   ${limitedEntries.length} products`);
         console.log('\nSample URLs:');
-        limitedUrls.slice(0, 5).forEach((url, i) => {
-            console.log(`   ${i + 1}. ${url.substring(0, 80)}...`);
+        limitedEntries.slice(0, 5).forEach(({ url, variant }, i) => {
+            const variantKey = buildVariantKey(variant);
+            console.log(`   ${i + 1}. ${url.substring(0, 80)}...${variantKey ? ` (${variantKey})` : ''}`);
         });
         return;
     }
 
-    // Fetch real product data from URLs using Puppeteer
-    const products = await fetchMultipleProductsWithPuppeteer(limitedUrls, {
+    // Fetch real product data from URLs using Puppeteer, priced for each entry's variant
+    const products = await fetchMultipleProductsWithPuppeteer(limitedEntries, {
         delay: 2000, // 2 seconds between batches
         maxConcurrent: 2, // 2 concurrent requests per batch (conservative for seeding)
     });
@@ -198,18 +210,34 @@ async function seedFromCSV(options: SeedOptions) {
         return;
     }
 
+    const inserted = await insertFetchedProducts(products, 'csv-import');
+
+    console.log('\n✅ CSV import seeding complete!');
+    console.log(`   Products: ${inserted.products}`);
+    console.log(`   Price snapshots: ${inserted.snapshots}`);
+}
+
+/**
+ * Insert products fetched from their pages, with their first price snapshot
+ */
+async function insertFetchedProducts(
+    products: FetchedProduct[],
+    source: string
+): Promise<{ products: number; snapshots: number }> {
     console.log(`\n📊 Processing ${products.length} products...`);
 
     // Convert to database format
     const dbProducts = products.map(p => {
         const normalizedUrl = normalizeUrl(p.url);
-        const productHash = generateProductHash(p.merchant, normalizedUrl);
+        const variantKey = buildVariantKey(p.variant);
+        const productHash = generateProductHash(p.merchant, normalizedUrl, variantKey);
 
         return {
             merchant: p.merchant,
             original_url: p.url,
             normalized_url: normalizedUrl,
             product_hash: productHash,
+            variant_key: variantKey,
             title: p.title,
             currency: p.currency,
         };
@@ -221,7 +249,7 @@ async function seedFromCSV(options: SeedOptions) {
     // Create initial price snapshots
     const priceSnapshots: PriceSnapshotInsert[] = insertedProducts.map((product) => {
         const originalProduct = products.find(p => {
-            const hash = generateProductHash(p.merchant, normalizeUrl(p.url));
+            const hash = generateProductHash(p.merchant, normalizeUrl(p.url), buildVariantKey(p.variant));
             return hash === product.product_hash;
         });
 
@@ -229,15 +257,76 @@ async function seedFromCSV(options: SeedOptions) {
             product_id: product.id,
             price: originalProduct?.price || 0,
             currency: originalProduct?.currency || 'COP',
-            source: 'csv-import',
+            source,
         };
     });
 
     await batchInsertPriceSnapshots(priceSnapshots);
 
-    console.log('\n✅ CSV import seeding complete!');
-    console.log(`   Products: ${insertedProducts.length}`);
-    console.log(`   Price snapshots: ${priceSnapshots.length}`);
+    return { products: insertedProducts.length, snapshots: priceSnapshots.length };
+}
+
+/**
+ * Seed Amazon products from a URL list (any regional site)
+ */
+async function seedAmazon(options: SeedOptions) {
+    if (!options.urlsFile) {
+        throw new Error('URL list is required for Amazon. Use --urls <path>');
+    }
+
+    console.log('\n📦 === SEEDING AMAZON PRODUCTS ===\n');
+    console.log(`File: ${options.urlsFile}`);
+
+    const { parseUrlListFile } = await import('./scrapers/url-list-import');
+    const { fetchMultipleProductsWithPuppeteer } = await import('./scrapers/puppeteer-fetch');
+
+    // Keep Amazon product pages only, one canonical /dp/<ASIN> URL per product
+    const urls = [...new Set(
+        parseUrlListFile(options.urlsFile)
+            .filter(url => {
+                try {
+                    return amazonAdapter.detect(new URL(url)) && extractAsin(url) !== null;
+                } catch (e) {
+                    return false;
+                }
+            })
+            .map(url => amazonAdapter.getCleanUrl!(url))
+    )];
+
+    if (urls.length === 0) {
+        console.log('⚠️  No Amazon product URLs found');
+        return;
+    }
+
+    const limitedUrls = urls.slice(0, options.count);
+    console.log(`\n🎯 Will process ${limitedUrls.length} URLs`);
+
+    if (options.dryRun) {
+        console.log('\n🔍 DRY RUN - Would fetch and insert:');
+        console.log(`   ${limitedUrls.length} products`);
+        console.log('\nSample URLs:');
+        limitedUrls.slice(0, 5).forEach((url, i) => {
+            console.log(`   ${i + 1}. ${url}`);
+        });
+        return;
+    }
+
+    // Amazon throttles quickly: one page at a time
+    const products = await fetchMultipleProductsWithPuppeteer(limitedUrls.map(url => ({ url, variant: getUrlVariant(url) })), {
+        delay: 5000,
+        maxConcurrent: 1,
+    });
+
+    if (products.length === 0) {
+        console.log('⚠️  No products fetched successfully');
+        return;
+    }
+
+    const inserted = await insertFetchedProducts(products, 'seed');
+
+    console.log('\n✅ Amazon seeding complete!');
+    console.log(`   Products: ${inserted.products}`);
+    console.log(`   Price snapshots: ${inserted.snapshots}`);
 }
 
 /**
@@ -245,6 +334,8 @@ async function seedFromCSV(options: SeedOptions) {
  */
 async function main() {
     const options = parseArgs();
+    // Stores added as definition files are imported with their own adapters
+    registerStoreDefinitions();
 
     console.log('🌱 === DELAY PRODUCT SEEDING SCRIPT ===');
     console.log(`Platform: ${options.platform}`);
@@ -258,14 +349,16 @@ async function main() {
                 await seedMercadoLibre(options);
                 break;
             case 'amazon':
-                console.log('⚠️ Amazon seeding not yet implemented');
+                await seedAmazon(options);
                 break;
             case 'csv':
                 await seedFromCSV(options);
                 break;
             case 'all':
                 await seedMercadoLibre(options);
-                // await seedAmazon(options);
+                if (options.urlsFile) {
+                    await seedAmazon(options);
+                }
                 break;
             default:
                 console.error(`❌ Unknown platform: ${options.platform}`);
@@ -6,7 +6,11 @@
 import { getProductsToTrack, updateLastTracked } from './utils/tracking-priority.js';
 import { supabase, PriceSnapshotInsert } from './utils/db.js';
 import { StrategyManager } from './tracking/manager.js';
-import { ProductToTrack } from './tracking/types.js';
+import { PolitenessScheduler } from './tracking/scheduler.js';
+import { ProductToTrack, TrackingResult, TrackingErrorCode } from './tracking/types.js';
+import { getFixtureMode, listFixtureProducts } from './tracking/fixtures.js';
+import { checkPrice, getRecentPrices, quarantinePrice, isIndependentRead } from './tracking/price-guard.js';
+import { sameAmount } from './tracking/consensus.js';
 
 /**
  * Main tracking function
@@ -18,15 +22,20 @@ async function trackPrices(options: {
     force?: boolean;
 } = {}) {
     const { limit = 100, merchant, concurrency = 5, force = false } = options;
+    // Replay serves recorded pages and never touches the stores or the database
+    const replay = getFixtureMode() === 'replay';
 
     console.log('🚀 === INTELLIGENT PRICE TRACKING (Multi-Strategy) ===\n');
     console.log(`⚙️  Configuration:`);
     console.log(`   Limit: ${limit} products`);
-    console.log(`   Concurrency: ${concurrency}`);
-    console.log(`   Force mode: ${force ? 'YES' : 'NO'}\n`);
+    console.log(`   Concurrency: ${concurrency} (per-host limits apply)`);
+    console.log(`   Force mode: ${force ? 'YES' : 'NO'}`);
+    console.log(`   Fixtures: ${getFixtureMode().toUpperCase()}\n`);
 
-    // 1. Fetch products
-    const products = await getProductsToTrack({ limit, merchant, force });
+    // 1. Fetch products (replay: the ones with recorded fixtures)
+    const products = replay
+        ? listFixtureProducts().filter(p => !merchant || p.merchant === merchant).slice(0, limit)
+        : await getProductsToTrack({ limit, merchant, force });
     if (products.length === 0) {
         console.log('⚠️  No products to track');
         return;
@@ -34,58 +43,81 @@ async function trackPrices(options: {
     console.log(`✅ Selected ${products.length} products for tracking\n`);
 
     // 2. Initialize Strategy Manager
-    const manager = new StrategyManager();
+    const manager = new StrategyManager({ offline: replay });
 
     try {
-        const results: any[] = [];
-
-        // 3. Process in batches
-        for (let i = 0; i < products.length; i += concurrency) {
-            const batch = products.slice(i, i + concurrency);
-            const batchNum = Math.floor(i / concurrency) + 1;
-            const totalBatches = Math.ceil(products.length / concurrency);
-
-            console.log(`📦 Batch ${batchNum}/${totalBatches} (${batch.length} products):`);
-
-            // Track batch concurrently
-            const batchResults = await Promise.all(
-                batch.map(async (p) => {
-                    const productToTrack: ProductToTrack = {
-                        id: p.id,
-                        merchant: p.merchant,
-                        original_url: p.original_url,
-                        title: p.title
-                    };
-
-                    // Execute Tracking via Manager
-                    const result = await manager.trackProduct(productToTrack);
-
-                    if (result.success && result.price) {
-                        console.log(`     💰 $${result.price.toLocaleString()} ${result.currency} [${result.strategyUsed}]`);
-                        
-                        // DB Logic (Keep it here or move to manager? Keep here for now)
-                        await handleDatabaseUpdate(p, result.price, result.currency || 'COP');
-                    } else {
-                        console.log(`     ❌ Failed [${result.strategyUsed}]: ${result.error?.substring(0, 50)}`);
-                    }
-
-                    return result;
-                })
-            );
-
-            results.push(...batchResults);
-
-            // Small delay between batches
-            if (i + concurrency < products.length) {
-                await new Promise(resolve => setTimeout(resolve, 2000));
+        await manager.init();
+
+        // 3. Process through the politeness scheduler (per-host limits, interleaved merchants)
+        const scheduler = new PolitenessScheduler(concurrency, !replay);
+        let completed = 0;
+
+        const results = await scheduler.run(products, async (p) => {
+            const productToTrack: ProductToTrack = {
+                id: p.id,
+                merchant: p.merchant,
+                original_url: p.original_url,
+                title: p.title,
+                category: p.category,
+                variant_key: p.variant_key
+            };
+
+            // Execute Tracking via Manager
+            const result = await manager.trackProduct(productToTrack);
+            completed++;
+
+            if (result.success && result.price) {
+                const stock = result.listing && result.listing.availability !== 'in_stock' ? ` (${result.listing.availability})` : '';
+                const discount = result.priceDetails?.discountPercent ? ` -${result.priceDetails.discountPercent}%` : '';
+                const review = result.needsReview ? ` ⚠️ confidence ${result.confidence}` : '';
+                console.log(`     💰 [${completed}/${products.length}] $${result.price.toLocaleString()} ${result.currency}${discount}${stock}${review} [${result.strategyUsed}]`);
+
+                // DB Logic (Keep it here or move to manager? Keep here for now)
+                if (!replay) {
+                    await handleDatabaseUpdate(p, result, () => manager.confirmPrice(productToTrack, result));
+                }
+            } else if (result.errorCode === TrackingErrorCode.PRODUCT_UNAVAILABLE && result.listing) {
+                console.log(`     🚫 [${completed}/${products.length}] Unavailable (${result.listing.availability}) [${result.strategyUsed}]`);
+
+                // No price to record, but going out of stock is still a change
+                if (!replay) {
+                    await handleAvailabilityUpdate(p, result);
+                }
+            } else if (result.deferred) {
+                console.log(`     ⏸️  [${completed}/${products.length}] Deferred: ${result.error}`);
+            } else {
+                console.log(`     ❌ [${completed}/${products.length}] Failed [${result.strategyUsed}] ${result.errorCode || TrackingErrorCode.UNKNOWN}: ${result.error?.substring(0, 50)}`);
             }
-        }
+
+            return result;
+        });
 
         // Summary
         const successful = results.filter(r => r.success).length;
+        const deferred = results.filter(r => r.deferred).length;
         console.log('\n📊 === TRACKING SUMMARY ===');
         console.log(`✅ Successful: ${successful}/${products.length}`);
-        console.log(`❌ Failed: ${results.length - successful}/${products.length}`);
+        const lowConfidence = results.filter(r => r.success && r.needsReview).length;
+        if (lowConfidence > 0) {
+            console.log(`🔍 Low confidence (review): ${lowConfidence}/${products.length}`);
+        }
+        console.log(`❌ Failed: ${results.length - successful - deferred}/${products.length}`);
+        if (deferred > 0) {
+            console.log(`⏸️  Deferred (circuit open or domain paused): ${deferred}/${products.length}`);
+        }
+
+        const failuresByCode = results
+            .filter(r => !r.success && !r.deferred)
+            .reduce((acc, r) => {
+                const code = r.errorCode || TrackingErrorCode.UNKNOWN;
+                acc[code] = (acc[code] || 0) + 1;
+                return acc;
+            }, {} as Record<string, number>);
+        for (const [code, count] of Object.entries(failuresByCode)) {
+            console.log(`   ${code}: ${count}`);
+        }
+
+        await manager.checkAdapterHealth();
 
     } finally {
         // 4. Cleanup
@@ -94,39 +126,183 @@ async function trackPrices(options: {
 }
 
 /**
- * Handle DB updates (Insert snapshot if price changed)
+ * Handle DB updates (Insert snapshot if price or availability changed)
+ * Low-confidence price changes are stored as needs_review instead of as a new price,
+ * and implausible ones must be confirmed by a re-fetch or are quarantined
  */
-async function handleDatabaseUpdate(product: any, newPrice: number, currency: string) {
-    // Get last snapshot
+async function handleDatabaseUpdate(product: any, result: TrackingResult, refetch: () => Promise<TrackingResult>) {
+    const newPrice = result.price!;
+    const listing = result.listing;
+
+    // Get last confirmed snapshot (review rows are not trusted prices)
     const { data: lastSnapshot } = await supabase
         .from('price_snapshots')
-        .select('price')
+        .select('price, availability, created_at')
         .eq('product_id', product.id)
+        .eq('needs_review', false)
         .order('created_at', { ascending: false })
         .limit(1)
         .single();
 
-    // Insert if changed
-    if (!lastSnapshot || lastSnapshot.price !== newPrice) {
+    const priceChanged = !lastSnapshot || lastSnapshot.price !== newPrice;
+    const availability = knownAvailability(listing?.availability);
+    const previousAvailability = availability ? await getLastKnownAvailability(product.id) : null;
+    const availabilityChanged = !!availability && !!previousAvailability && availability !== previousAvailability;
+    const needsReview = !!result.needsReview && priceChanged;
+
+    if (!priceChanged && !availabilityChanged) {
+        console.log(`     ⏭️  No change`);
+        await updateLastTracked(product.id);
+        return;
+    }
+
+    if (needsReview) {
+        // Queue each doubtful price once until a confirmed snapshot supersedes it
+        let pendingQuery = supabase
+            .from('price_snapshots')
+            .select('id')
+            .eq('product_id', product.id)
+            .eq('needs_review', true)
+            .eq('price', newPrice);
+        if (lastSnapshot) pendingQuery = pendingQuery.gt('created_at', lastSnapshot.created_at);
+        const { data: pending } = await pendingQuery.limit(1);
+
+        if (pending && pending.length > 0) {
+            console.log(`     ⏭️  Already queued for review`);
+            await updateLastTracked(product.id);
+            return;
+        }
+    }
+
+    // Sanity guard: category bounds and recent history
+    const suspicion = priceChanged && !needsReview
+        ? checkPrice(newPrice, result.currency || 'COP', await getRecentPrices(product.id), product.category)
+        : null;
+    if (suspicion) {
+        console.log(`     🛡️  Suspicious price (${suspicion}), re-fetching to confirm...`);
+        const confirmation = await refetch();
+        const independent = isIndependentRead(result, confirmation);
+        const confirmed = independent && !confirmation.needsReview && sameAmount(confirmation.price!, newPrice);
+
+        if (!confirmed) {
+            const queued = await quarantinePrice({
+                product_id: product.id,
+                price: newPrice,
+                currency: result.currency || 'COP',
+                previous_price: lastSnapshot?.price ?? null,
+                reason: suspicion,
+                strategy_used: result.strategyUsed,
+                confidence: result.confidence ?? null,
+                price_candidates: result.candidates ?? [],
+                refetch_price: confirmation.success ? confirmation.price ?? null : null,
+            });
+            const refetched = !confirmation.success ? 'failed' : `gave ${confirmation.price}${independent ? '' : ' from the same adapter and sources'}`;
+            console.log(`     🚧 ${queued ? 'Quarantined' : 'Already quarantined'} (re-fetch ${refetched})`);
+            await updateLastTracked(product.id);
+            return;
+        }
+        console.log(`     ✔️  Confirmed by ${confirmation.strategyUsed}`);
+    }
+
+    const snapshot: PriceSnapshotInsert = {
+        product_id: product.id,
+        price: newPrice,
+        currency: result.currency || 'COP',
+        source: 'automated-tracking',
+        availability: listing?.availability ?? null,
+        stock_hint: listing?.stockHint ?? null,
+        seller_id: listing?.seller?.id ?? null,
+        seller_name: listing?.seller?.name ?? null,
+        marketplace_flags: listing?.flags ?? [],
+        list_price: result.priceDetails?.listPrice ?? null,
+        discount_percent: result.priceDetails?.discountPercent ?? null,
+        installments: result.priceDetails?.installments ?? [],
+        conditional_prices: result.priceDetails?.conditionalPrices ?? [],
+        confidence: result.confidence ?? null,
+        needs_review: needsReview,
+        price_candidates: result.candidates ?? [],
+    };
+    await supabase.from('price_snapshots').insert(snapshot);
+
+    const change = lastSnapshot 
+        ? ((newPrice - lastSnapshot.price) / lastSnapshot.price * 100).toFixed(1) + '%' 
+        : 'new';
+    if (needsReview) {
+        console.log(`     🔍 Needs review (${change}, confidence ${result.confidence})`);
+    } else {
+        console.log(`     ✅ Price recorded (${change}${availabilityChanged ? `, now ${availability}` : ''})`);
+    }
+
+    await updateLastTracked(product.id);
+}
+
+/**
+ * Record an availability change for a listing the store shows without a price
+ * (the snapshot keeps the last confirmed price)
+ */
+async function handleAvailabilityUpdate(product: any, result: TrackingResult) {
+    const listing = result.listing!;
+    const availability = knownAvailability(listing.availability);
+    const previousAvailability = availability ? await getLastKnownAvailability(product.id) : null;
+
+    if (!availability || !previousAvailability || availability === previousAvailability) {
+        console.log(`     ⏭️  No change`);
+        await updateLastTracked(product.id);
+        return;
+    }
+
+    const { data: lastSnapshot } = await supabase
+        .from('price_snapshots')
+        .select('price, currency')
+        .eq('product_id', product.id)
+        .eq('needs_review', false)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .single();
+
+    if (lastSnapshot) {
         const snapshot: PriceSnapshotInsert = {
             product_id: product.id,
-            price: newPrice,
-            currency: currency,
+            price: lastSnapshot.price,
+            currency: lastSnapshot.currency,
             source: 'automated-tracking',
+            availability,
+            stock_hint: listing.stockHint,
+            seller_id: listing.seller?.id ?? null,
+            seller_name: listing.seller?.name ?? null,
+            marketplace_flags: listing.flags,
         };
         await supabase.from('price_snapshots').insert(snapshot);
-        
-        const change = lastSnapshot 
-            ? ((newPrice - lastSnapshot.price) / lastSnapshot.price * 100).toFixed(1) + '%' 
-            : 'new';
-        console.log(`     ✅ Price recorded (${change})`);
-    } else {
-        console.log(`     ⏭️  No change`);
+        console.log(`     ✅ Availability recorded (now ${availability})`);
     }
 
     await updateLastTracked(product.id);
 }
 
+/**
+ * 'unknown' says no more than a snapshot taken before availability was captured (NULL)
+ */
+function knownAvailability(availability: string | null | undefined): string | null {
+    return availability && availability !== 'unknown' ? availability : null;
+}
+
+/**
+ * Availability of the latest confirmed snapshot that captured one
+ */
+async function getLastKnownAvailability(productId: string): Promise<string | null> {
+    const { data } = await supabase
+        .from('price_snapshots')
+        .select('availability')
+        .eq('product_id', productId)
+        .eq('needs_review', false)
+        .not('availability', 'is', null)
+        .neq('availability', 'unknown')
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+    return data?.[0]?.availability ?? null;
+}
+
 // CLI execution
 if (require.main === module) {
     const args = process.argv.slice(2);
@@ -0,0 +1,287 @@
+/**
+ * Adapter Health
+ * Selector drift (a store changing its markup) shows up as a run full of PRICE_NOT_FOUND.
+ * This tracks, per adapter and domain, the share of loaded pages that yielded a price and how
+ * often each selector matched, stores one row per run, and compares the run with the recent
+ * runs before it. A sharp drop raises an alert naming the selectors that stopped matching:
+ * health-alerts.json in the run's evidence directory, the workflow summary, and
+ * TRACKING_ALERT_WEBHOOK_URL when set. With TRACKING_PAUSE_ON_DRIFT=true the domain is also
+ * paused (its products are deferred) until someone resumes it.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { supabase } from '../utils/db.js';
+import { TrackingResult, TrackingErrorCode } from './types.js';
+import { getEvidenceRunDir } from './evidence.js';
+
+// Runs the baseline is computed from
+const BASELINE_RUNS = 10;
+const MIN_BASELINE_RUNS = 3;
+// Loaded pages a run needs before its rate means anything
+const MIN_PAGES = 5;
+// Drift: the rate fell below half its baseline, and by at least 30 points
+const DROP_RATIO = 0.5;
+const MIN_DROP = 0.3;
+// A selector broke when it used to match (>= 80%) and now rarely does (<= 20%)
+const SELECTOR_BASELINE_RATE = 0.8;
+const SELECTOR_BROKEN_RATE = 0.2;
+const MIN_SELECTOR_PROBES = 3;
+
+interface SelectorStats {
+    matched: number;
+    probed: number;
+}
+
+export interface AdapterHealthRun {
+    run_id: string;
+    adapter: string;
+    domain: string;
+    /** Pages that loaded (priced, or PRICE_NOT_FOUND) */
+    pages: number;
+    extracted: number;
+    success_rate: number;
+    selector_stats: Record<string, SelectorStats>;
+    drift_detected: boolean;
+}
+
+export interface DriftAlert {
+    adapter: string;
+    domain: string;
+    currentRate: number;
+    baselineRate: number;
+    baselineRuns: number;
+    pages: number;
+    /** Selectors that matched in the baseline and stopped matching this run */
+    failingSelectors: string[];
+    paused: boolean;
+}
+
+function percent(rate: number): string {
+    return `${Math.round(rate * 100)}%`;
+}
+
+function selectorRate(stats: SelectorStats | undefined): number | null {
+    return stats && stats.probed >= MIN_SELECTOR_PROBES ? stats.matched / stats.probed : null;
+}
+
+export class AdapterHealthMonitor {
+    private runs: Map<string, AdapterHealthRun> = new Map();
+    private paused: Map<string, string> = new Map();
+    private runId = process.env.GITHUB_RUN_ID || new Date().toISOString();
+
+    /**
+     * Load domains paused by earlier runs (missing table just means nothing is paused)
+     */
+    async loadPauses(): Promise<void> {
+        const { data, error } = await supabase
+            .from('tracking_domain_pauses')
+            .select('domain, reason')
+            .is('resumed_at', null);
+
+        if (error) {
+            console.warn(`⚠️  Could not load paused domains: ${error.message}`);
+            return;
+        }
+
+        for (const row of data || []) {
+            this.paused.set(row.domain, row.reason);
+        }
+        if (this.paused.size > 0) {
+            console.log(`⏸️  Paused domains (adapter drift): ${[...this.paused.keys()].join(', ')}`);
+        }
+    }
+
+    /**
+     * Why the domain is paused, or null when it is tracked
+     */
+    getPauseReason(domain: string): string | null {
+        return this.paused.get(domain) ?? null;
+    }
+
+    /**
+     * Count a product's final result
+     * Only loaded pages say anything about selectors; blocks and 404s are handled elsewhere
+     */
+    record(domain: string, result: TrackingResult): void {
+        if (!result.adapterId) return;
+        if (!result.success && result.errorCode !== TrackingErrorCode.PRICE_NOT_FOUND) return;
+
+        const key = `${result.adapterId}|${domain}`;
+        const run = this.runs.get(key) || {
+            run_id: this.runId,
+            adapter: result.adapterId,
+            domain,
+            pages: 0,
+            extracted: 0,
+            success_rate: 0,
+            selector_stats: {},
+            drift_detected: false,
+        };
+
+        run.pages++;
+        run.extracted += result.success ? 1 : 0;
+        run.success_rate = run.extracted / run.pages;
+        for (const selector of [...result.selectors?.matched || [], ...result.selectors?.missed || []]) {
+            const stats = run.selector_stats[selector] ||= { matched: 0, probed: 0 };
+            stats.probed++;
+            if (result.selectors!.matched.includes(selector)) stats.matched++;
+        }
+
+        this.runs.set(key, run);
+    }
+
+    /**
+     * Compare this run with the baseline, store it, and raise alerts for sharp drops
+     */
+    async check(): Promise<DriftAlert[]> {
+        const alerts: DriftAlert[] = [];
+        const runs = [...this.runs.values()].filter(run => run.pages >= MIN_PAGES);
+
+        for (const run of runs) {
+            const baseline = await this.loadBaseline(run.adapter, run.domain);
+            if (baseline.length < MIN_BASELINE_RUNS) continue;
+
+            const baselineRate = baseline.reduce((sum, r) => sum + r.extracted, 0) / baseline.reduce((sum, r) => sum + r.pages, 0);
+            if (run.success_rate >= baselineRate * DROP_RATIO || baselineRate - run.success_rate < MIN_DROP) continue;
+
+            run.drift_detected = true;
+            alerts.push({
+                adapter: run.adapter,
+                domain: run.domain,
+                currentRate: run.success_rate,
+                baselineRate,
+                baselineRuns: baseline.length,
+                pages: run.pages,
+                failingSelectors: this.findFailingSelectors(run, baseline),
+                paused: false,
+            });
+        }
+
+        await this.save(runs);
+        if (process.env.TRACKING_PAUSE_ON_DRIFT === 'true') {
+            for (const alert of alerts) {
+                alert.paused = await this.pause(alert);
+            }
+        }
+        return alerts;
+    }
+
+    /**
+     * Selectors that matched in the baseline runs and stopped matching in this one
+     */
+    private findFailingSelectors(run: AdapterHealthRun, baseline: AdapterHealthRun[]): string[] {
+        return Object.keys(run.selector_stats).filter(selector => {
+            const now = selectorRate(run.selector_stats[selector]);
+            const before = selectorRate(baseline.reduce<SelectorStats>((sum, r) => ({
+                matched: sum.matched + (r.selector_stats?.[selector]?.matched || 0),
+                probed: sum.probed + (r.selector_stats?.[selector]?.probed || 0),
+            }), { matched: 0, probed: 0 }));
+            return now !== null && before !== null && before >= SELECTOR_BASELINE_RATE && now <= SELECTOR_BROKEN_RATE;
+        });
+    }
+
+    /**
+     * Recent healthy runs of the adapter on the domain (runs that drifted don't lower the bar)
+     */
+    private async loadBaseline(adapter: string, domain: string): Promise<AdapterHealthRun[]> {
+        const { data, error } = await supabase
+            .from('adapter_health_runs')
+            .select('run_id, adapter, domain, pages, extracted, success_rate, selector_stats, drift_detected')
+            .eq('adapter', adapter)
+            .eq('domain', domain)
+            .eq('drift_detected', false)
+            .gte('pages', MIN_PAGES)
+            .order('created_at', { ascending: false })
+            .limit(BASELINE_RUNS);
+
+        if (error) {
+            console.warn(`⚠️  Could not load adapter health baseline: ${error.message}`);
+            return [];
+        }
+        return (data || []) as AdapterHealthRun[];
+    }
+
+    private async save(runs: AdapterHealthRun[]): Promise<void> {
+        if (runs.length === 0) return;
+
+        const { error } = await supabase.from('adapter_health_runs').insert(runs);
+        if (error) {
+            console.error('❌ Error saving adapter health:', error);
+            return;
+        }
+        console.log(`🩺 Saved adapter health for ${runs.length} adapter/domain pairs`);
+    }
+
+    private async pause(alert: DriftAlert): Promise<boolean> {
+        if (this.paused.has(alert.domain)) return true;
+
+        const reason = `${alert.adapter} adapter priced ${percent(alert.currentRate)} of pages (baseline ${percent(alert.baselineRate)})`;
+        const { error } = await supabase.from('tracking_domain_pauses').insert({
+            domain: alert.domain,
+            adapter: alert.adapter,
+            reason,
+            failing_selectors: alert.failingSelectors,
+        });
+        if (error) {
+            console.error(`❌ Error pausing ${alert.domain}:`, error);
+            return false;
+        }
+
+        this.paused.set(alert.domain, reason);
+        return true;
+    }
+}
+
+function formatAlert(alert: DriftAlert): string {
+    return `${alert.adapter} adapter on ${alert.domain}: ${percent(alert.currentRate)} of ${alert.pages} pages priced `
+        + `(baseline ${percent(alert.baselineRate)} over ${alert.baselineRuns} runs)`;
+}
+
+/**
+ * Log drift alerts and send them where someone will see them
+ * (evidence artifact, GitHub step summary and annotations, webhook)
+ */
+export async function reportDriftAlerts(alerts: DriftAlert[]): Promise<void> {
+    if (alerts.length === 0) return;
+
+    console.log('\n🩺 === ADAPTER HEALTH ===');
+    for (const alert of alerts) {
+        console.log(`🚨 ${formatAlert(alert)}`);
+        console.log(`   Failing selectors: ${alert.failingSelectors.length > 0 ? alert.failingSelectors.join(', ') : 'none identified'}`);
+        if (alert.paused) console.log(`   ⏸️  ${alert.domain} paused until resumed`);
+        if (process.env.GITHUB_ACTIONS) console.log(`::warning title=Adapter drift::${formatAlert(alert)}`);
+    }
+
+    const dir = getEvidenceRunDir();
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, 'health-alerts.json'), JSON.stringify({ createdAt: new Date().toISOString(), alerts }, null, 2));
+    console.log(`   📝 ${path.relative(process.cwd(), path.join(dir, 'health-alerts.json'))}`);
+
+    if (process.env.GITHUB_STEP_SUMMARY) {
+        const rows = alerts.map(a => `| ${a.adapter} | ${a.domain} | ${percent(a.currentRate)} | ${percent(a.baselineRate)} | ${a.failingSelectors.map(s => `\`${s}\``).join('<br>') || '-'} | ${a.paused ? 'yes' : 'no'} |`);
+        fs.appendFileSync(process.env.GITHUB_STEP_SUMMARY, [
+            '## 🚨 Adapter drift',
+            '',
+            '| Adapter | Domain | Priced | Baseline | Failing selectors | Paused |',
+            '| --- | --- | --- | --- | --- | --- |',
+            ...rows,
+            '',
+        ].join('\n'));
+    }
+
+    const webhook = process.env.TRACKING_ALERT_WEBHOOK_URL;
+    if (webhook) {
+        const text = ['🚨 Adapter drift', ...alerts.map(a => `• ${formatAlert(a)}${a.failingSelectors.length > 0 ? ` - failing: ${a.failingSelectors.join(', ')}` : ''}${a.paused ? ' (paused)' : ''}`)].join('\n');
+        try {
+            const response = await fetch(webhook, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ text }),
+            });
+            if (!response.ok) console.warn(`⚠️  Alert webhook returned HTTP ${response.status}`);
+        } catch (error: any) {
+            console.warn(`⚠️  Could not send alert webhook: ${error.message}`);
+        }
+    }
+}
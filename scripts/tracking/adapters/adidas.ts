@@ -0,0 +1,110 @@
+import { StoreAdapter, AdapterDocument, Availability } from '../types.js';
+import { extractMetaTitle, extractMetaImage, findObjects } from './helpers.js';
+import { readStructuredData, pickOffer } from './structured-data.js';
+import { VariantOffer, extractVariant } from './variants.js';
+import { parsePrice, getUrlLocale, PriceLocale } from '../../utils/price-parser.js';
+
+const ADIDAS_HOST = /(^|\.)adidas\.(com|co|mx|cl|pe|com\.ar|com\.co|com\.br)$/;
+
+/** Article (model + color) at the end of product URLs (/<slug>/B75806.html) */
+const ARTICLE_PATTERN = /\/([A-Z0-9]{6})\.html/i;
+
+const LOW_STOCK_UNITS = 3;
+
+const SIZE_STATUS: Record<string, Availability> = {
+    IN_STOCK: 'in_stock',
+    NOT_AVAILABLE: 'out_of_stock',
+    PREORDER: 'preorder',
+};
+
+/** Products and availability lists from window.DATA_STORE */
+interface AdidasProduct {
+    id: string;
+    name?: string;
+    attribute_list?: { color?: string };
+    pricing_information?: { currentPrice?: number; standard_price?: number; sale_price?: number };
+}
+
+interface AdidasAvailability {
+    id?: string;
+    variation_list: Array<{ sku: string; size: string; availability?: number; availability_status?: string }>;
+}
+
+/**
+ * window.DATA_STORE = JSON.parse("...") (a JSON string holding the store)
+ */
+async function readDataStore(doc: AdapterDocument): Promise<any | null> {
+    const match = (await doc.html()).match(/DATA_STORE\s*=\s*JSON\.parse\(("(?:[^"\\]|\\.)*")\)/);
+    if (!match) return null;
+    try {
+        return JSON.parse(JSON.parse(match[1]!));
+    } catch (e) {
+        return null;
+    }
+}
+
+function readOffers(products: AdidasProduct[], stock: AdidasAvailability[], locale: PriceLocale): VariantOffer[] {
+    return products.flatMap((product): VariantOffer[] => {
+        const pricing = product.pricing_information || {};
+        const current = pricing.currentPrice ?? pricing.sale_price ?? pricing.standard_price;
+        // The store's domain fixes the currency of the state's amounts
+        const price = current ? parsePrice(current, locale, { currency: locale.currency }) : null;
+        const base = {
+            color: product.id,
+            colorName: product.attribute_list?.color || null,
+            price: price?.amount ? price : null,
+            listPrice: pricing.standard_price ?? null,
+        };
+
+        const sizes = (stock.find(s => s.id === product.id) || (products.length === 1 ? stock[0] : undefined))?.variation_list || [];
+        if (sizes.length === 0) return [{ ...base, sku: product.id, size: null, availability: 'unknown' }];
+        return sizes.map(size => ({
+            ...base,
+            sku: size.sku,
+            size: size.size,
+            availability: SIZE_STATUS[size.availability_status || ''] || 'unknown',
+            stockHint: size.availability && size.availability <= LOW_STOCK_UNITS ? `${size.availability} disponibles` : null,
+        }));
+    });
+}
+
+export const adidasAdapter: StoreAdapter = {
+    id: 'adidas',
+    domains: ['adidas.com', 'adidas.co', 'adidas.mx', 'adidas.cl', 'adidas.pe', 'adidas.com.ar'],
+    readySelector: 'script[type="application/ld+json"]',
+
+    detect(url) {
+        return ADIDAS_HOST.test(url.hostname.toLowerCase());
+    },
+
+    getVariant(url) {
+        const article = new URL(url).pathname.match(ARTICLE_PATTERN)?.[1];
+        return article ? { color: article.toUpperCase() } : null;
+    },
+
+    async isProductPage(doc) {
+        return ARTICLE_PATTERN.test(new URL(doc.url).pathname);
+    },
+
+    async extract(doc, variant) {
+        const store = await readDataStore(doc);
+        const structured = pickOffer(readStructuredData(await doc.html(), doc.url));
+        const products: AdidasProduct[] = findObjects(store, node => typeof node.id === 'string' && !!node.pricing_information);
+        const stock: AdidasAvailability[] = findObjects(store, node => Array.isArray(node.variation_list));
+        const requested = variant ?? this.getVariant!(doc.url);
+        const selected = products.find(p => p.id === requested?.color) || products[0];
+
+        return extractVariant(readOffers(products, stock, getUrlLocale(doc.url)), requested, {
+            title: selected?.name || structured?.productName || await extractMetaTitle(doc) || 'Unknown',
+            image: await extractMetaImage(doc) || structured?.image || null,
+            structured,
+        });
+    },
+
+    getCleanUrl(url) {
+        const urlObj = new URL(url);
+        urlObj.search = '';
+        urlObj.hash = '';
+        return urlObj.toString();
+    },
+};
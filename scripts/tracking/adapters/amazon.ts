@@ -0,0 +1,176 @@
+import { StoreAdapter, AdapterDocument, ExtractedPrice, ListingDetails, Availability, MarketplaceFlag, PriceCandidate } from '../types.js';
+import { extractMetaImage } from './helpers.js';
+import { toCandidate } from '../consensus.js';
+import { parsePrice, getStoreLocale, PriceLocale, ParsedPrice } from '../../utils/price-parser.js';
+
+// amazon.com and the regional storefronts
+const AMAZON_HOST = /(^|\.)amazon\.(com(\.mx|\.br|\.au)?|ca|co\.uk|de|es|fr|it|nl|co\.jp|in)$/;
+
+// Buy box price, newest layout first
+const BUY_BOX_PRICE_SELECTORS = [
+    '#corePriceDisplay_desktop_feature_div .priceToPay .a-offscreen',
+    '#corePrice_feature_div .a-price:not(.a-text-price) .a-offscreen',
+    '#apex_desktop .a-price:not(.a-text-price) .a-offscreen',
+    '#tp_price_block_total_price_ww .a-offscreen',
+    '#price_inside_buybox',
+    '#newBuyBoxPrice',
+    '#priceblock_dealprice',
+    '#priceblock_ourprice',
+];
+
+// Machine-readable copies of the buy box price (used to cross-check the displayed one)
+const HIDDEN_PRICE_SELECTORS = [
+    'input#attach-base-product-price',
+    'input#twister-plus-price-data-price',
+];
+
+const LIST_PRICE_SELECTORS = [
+    '#corePriceDisplay_desktop_feature_div .basisPrice .a-offscreen',
+    '#corePrice_feature_div .a-text-price[data-a-strike="true"] .a-offscreen',
+    '#apex_desktop .a-text-price[data-a-strike="true"] .a-offscreen',
+    '#listPrice',
+    '#priceblock_listprice',
+];
+
+const SAVINGS_SELECTOR = '#corePriceDisplay_desktop_feature_div .savingsPercentage';
+const AVAILABILITY_SELECTOR = '#availability';
+const SELLER_SELECTORS = [
+    '#sellerProfileTriggerId',
+    '#merchantInfoFeature_feature_div .offer-display-feature-text-message',
+    '#merchant-info a',
+];
+const SHIPS_FROM_SELECTORS = [
+    '#fulfillerInfoFeature_feature_div .offer-display-feature-text-message',
+    '#merchant-info',
+];
+
+const OUT_OF_STOCK_PATTERN = /currently unavailable|out of stock|no disponible|agotado|não disponível|indisponível|nicht verfügbar|indisponible|non disponibile/i;
+const PREORDER_PATTERN = /pre-?order|preventa|pré-venda|vorbestell|précommande|preordina/i;
+const IN_STOCK_PATTERN = /in stock|disponible|em estoque|auf lager|en stock|disponibilità immediata/i;
+const LOW_STOCK_PATTERN = /only \d+ left|solo quedan? \d+|apenas \d+|nur noch \d+|plus que \d+|solo \d+/i;
+
+/**
+ * ASIN from a product URL (/dp/, /gp/product/, /gp/aw/d/)
+ */
+export function extractAsin(url: string): string | null {
+    const match = url.match(/\/(?:dp|gp\/product|gp\/aw\/d|product-reviews)\/([A-Z0-9]{10})(?:[/?#]|$)/i);
+    return match ? match[1].toUpperCase() : null;
+}
+
+async function readPrice(doc: AdapterDocument, selectors: string[], locale: PriceLocale): Promise<ParsedPrice | null> {
+    for (const selector of selectors) {
+        const price = parsePrice(await doc.text(selector), locale);
+        if (price.amount !== null) return price;
+    }
+    return null;
+}
+
+async function extractPrice(doc: AdapterDocument, locale: PriceLocale): Promise<ExtractedPrice> {
+    // 1. Displayed buy box price
+    const displayed = await readPrice(doc, BUY_BOX_PRICE_SELECTORS, locale);
+
+    // 2. Hidden inputs carry the same price as a plain number
+    let hidden: ParsedPrice | null = null;
+    for (const selector of HIDDEN_PRICE_SELECTORS) {
+        const value = await doc.attr(selector, 'value');
+        if (value && !isNaN(Number(value))) {
+            hidden = parsePrice(Number(value), locale, { currency: displayed?.currency });
+            break;
+        }
+    }
+
+    const candidates = [toCandidate('dom', displayed), toCandidate('meta', hidden)]
+        .filter((candidate): candidate is PriceCandidate => candidate !== null);
+    const price: ExtractedPrice = displayed || hidden || { raw: null, amount: null, currency: null };
+
+    // 3. Promotion: "List Price" / "Typical price" and the "-20%" badge
+    const listPrice = await readPrice(doc, LIST_PRICE_SELECTORS, locale);
+    const savings = (await doc.text(SAVINGS_SELECTOR))?.match(/(\d+)\s*%/);
+
+    return {
+        ...price,
+        candidates,
+        listPrice: listPrice?.amount ?? null,
+        discountPercent: savings ? parseInt(savings[1], 10) : null,
+    };
+}
+
+async function extractListing(doc: AdapterDocument): Promise<ListingDetails> {
+    const availabilityText = await doc.text(AVAILABILITY_SELECTOR);
+
+    let availability: Availability = 'unknown';
+    if (await doc.attr('#outOfStock', 'id') !== null || (availabilityText && OUT_OF_STOCK_PATTERN.test(availabilityText))) {
+        availability = 'out_of_stock';
+    } else if (availabilityText && PREORDER_PATTERN.test(availabilityText)) {
+        availability = 'preorder';
+    } else if ((availabilityText && IN_STOCK_PATTERN.test(availabilityText)) || await doc.attr('#add-to-cart-button', 'id') !== null) {
+        availability = 'in_stock';
+    }
+
+    let sellerName: string | null = null;
+    for (const selector of SELLER_SELECTORS) {
+        sellerName = await doc.text(selector);
+        if (sellerName) break;
+    }
+    // Third-party sellers link to their storefront (?seller=<id>)
+    const sellerLink = await doc.attr('#sellerProfileTriggerId', 'href');
+    const sellerId = sellerLink?.match(/[?&]seller=([A-Z0-9]+)/i)?.[1]
+        || await doc.attr('input#merchantID', 'value')
+        || null;
+
+    // Shipped by Amazon (FBA) is Amazon's equivalent of a marketplace-fulfilled listing
+    const flags: MarketplaceFlag[] = [];
+    for (const selector of SHIPS_FROM_SELECTORS) {
+        const shipsFrom = await doc.text(selector);
+        if (shipsFrom) {
+            if (/amazon/i.test(shipsFrom)) flags.push('full');
+            break;
+        }
+    }
+
+    return {
+        availability,
+        stockHint: availabilityText?.match(LOW_STOCK_PATTERN) ? availabilityText : null,
+        seller: sellerName || sellerId ? { id: sellerId, name: sellerName } : null,
+        flags,
+    };
+}
+
+export const amazonAdapter: StoreAdapter = {
+    id: 'amazon',
+    domains: ['amazon.com', 'amazon.com.mx', 'amazon.com.br', 'amazon.ca', 'amazon.co.uk', 'amazon.de', 'amazon.es', 'amazon.fr', 'amazon.it'],
+    readySelector: '#productTitle, #corePrice_feature_div, form[action*="validateCaptcha"]',
+
+    detect(url) {
+        return AMAZON_HOST.test(url.hostname.toLowerCase());
+    },
+
+    async isProductPage(doc) {
+        return !!extractAsin(doc.url) && await doc.text('#productTitle') !== null;
+    },
+
+    async isBlocked(doc) {
+        return await doc.attr('form[action*="validateCaptcha"]', 'action') !== null;
+    },
+
+    async extract(doc) {
+        const locale = getStoreLocale(new URL(doc.url).hostname);
+        const image = await doc.attr('#landingImage', 'data-old-hires')
+            || await doc.attr('#landingImage', 'src')
+            || await extractMetaImage(doc);
+
+        return {
+            title: await doc.text('#productTitle') || 'Unknown',
+            price: await extractPrice(doc, locale),
+            image,
+            sku: extractAsin(doc.url) || await doc.attr('input#ASIN', 'value'),
+            listing: await extractListing(doc),
+        };
+    },
+
+    getCleanUrl(url) {
+        const asin = extractAsin(url);
+        if (!asin) return url;
+        return `${new URL(url).origin}/dp/${asin}`;
+    },
+};
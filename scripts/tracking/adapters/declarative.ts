@@ -0,0 +1,160 @@
+/**
+ * Declarative Store Adapter
+ * Turns a store definition (tracking/store-definitions.ts) into a StoreAdapter. Each field is
+ * read with its rules in order: CSS selectors against the document, JSON paths against the
+ * page's data (__NEXT_DATA__, JSON-LD or an inline script object).
+ */
+
+import { StoreAdapter, AdapterDocument, Availability, ListingDetails, PriceCandidate, PriceSource } from '../types.js';
+import { StoreDefinition, FieldRule, FieldRules, ruleList, canonicalizeUrl } from '../store-definitions.js';
+import { matchesDomain, extractMetaTitle, extractMetaImage, parseAvailability, readNextData, readScriptObject } from './helpers.js';
+import { toCandidate } from '../consensus.js';
+import { parsePrice, PRICE_LOCALES, ParsedPrice } from '../../utils/price-parser.js';
+
+const JSON_LD_PATTERN = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+interface FieldValue {
+    value: string;
+    source: PriceSource;
+    rule: FieldRule;
+}
+
+/**
+ * Data a JSON path can read, parsed once per document
+ */
+class JsonRoots {
+    private roots: Map<string, any[]> = new Map();
+
+    constructor(private doc: AdapterDocument) {}
+
+    async get(from: string): Promise<any[]> {
+        if (!this.roots.has(from)) {
+            const html = await this.doc.html();
+            const roots = from === 'next-data' ? [await readNextData(this.doc)]
+                : from === 'json-ld' ? readJsonLdRoots(html)
+                : [readScriptObject(html, from)];
+            this.roots.set(from, roots.filter(root => root !== null && root !== undefined));
+        }
+        return this.roots.get(from)!;
+    }
+}
+
+/**
+ * Every JSON-LD block, with @graph members as roots of their own
+ */
+function readJsonLdRoots(html: string): any[] {
+    const roots: any[] = [];
+    for (const match of html.matchAll(JSON_LD_PATTERN)) {
+        try {
+            const parsed = JSON.parse(match[1]!);
+            for (const node of Array.isArray(parsed) ? parsed : [parsed]) {
+                roots.push(node, ...(Array.isArray(node?.['@graph']) ? node['@graph'] : []));
+            }
+        } catch (e) {}
+    }
+    return roots;
+}
+
+/**
+ * $.offers[0].price -> ['offers', '0', 'price']
+ */
+function readPath(root: any, jsonPath: string): unknown {
+    const keys = jsonPath.replace(/^\$\.?/, '').replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean);
+    return keys.reduce((node, key) => (node === null || node === undefined ? undefined : node[key]), root);
+}
+
+/**
+ * Value of every rule that finds one, in rule order
+ */
+async function readField(doc: AdapterDocument, rules: FieldRules | undefined, json: JsonRoots): Promise<FieldValue[]> {
+    const values: FieldValue[] = [];
+    for (const rule of ruleList(rules)) {
+        if (rule.selector) {
+            const value = rule.attribute ? await doc.attr(rule.selector, rule.attribute) : await doc.text(rule.selector);
+            if (value) values.push({ value, source: 'dom', rule });
+            continue;
+        }
+
+        const from = rule.from || 'next-data';
+        for (const root of await json.get(from)) {
+            const value = readPath(root, rule.jsonPath!);
+            if (value !== null && value !== undefined && value !== '' && typeof value !== 'object') {
+                values.push({ value: String(value), source: from === 'json-ld' ? 'json-ld' : 'state', rule });
+                break;
+            }
+        }
+    }
+    return values;
+}
+
+function readAvailability(values: FieldValue[]): Availability {
+    for (const { value, rule } of values) {
+        const mapped = Object.entries(rule.values || {}).find(([text]) => text.toLowerCase() === value.toLowerCase())?.[1];
+        const availability = mapped || parseAvailability(value.replace(/\s+/g, ''));
+        if (availability !== 'unknown') return availability;
+    }
+    return 'unknown';
+}
+
+export function createDeclarativeAdapter(definition: StoreDefinition): StoreAdapter {
+    const locale = PRICE_LOCALES[definition.locale]!;
+    const productUrlPattern = definition.productUrlPattern ? new RegExp(definition.productUrlPattern) : null;
+
+    const readPrices = async (doc: AdapterDocument, rules: FieldRules | undefined, json: JsonRoots) => {
+        const values = await readField(doc, rules, json);
+        return values
+            .map(value => ({ source: value.source, price: parsePrice(value.value, locale) }))
+            .filter((read): read is { source: PriceSource; price: ParsedPrice } => read.price.amount !== null);
+    };
+
+    return {
+        id: definition.id,
+        domains: definition.domains,
+        readySelector: definition.readySelector,
+
+        detect(url) {
+            return matchesDomain(url.hostname, definition.domains);
+        },
+
+        async isProductPage(doc) {
+            if (productUrlPattern && !productUrlPattern.test(doc.url)) return false;
+            return (await readPrices(doc, definition.fields.price, new JsonRoots(doc))).length > 0;
+        },
+
+        async extract(doc) {
+            const json = new JsonRoots(doc);
+            const prices = await readPrices(doc, definition.fields.price, json);
+            const listPrice = (await readPrices(doc, definition.fields.listPrice, json))[0]?.price.amount ?? null;
+            const title = (await readField(doc, definition.fields.title, json))[0]?.value;
+            const image = (await readField(doc, definition.fields.image, json))[0]?.value;
+            const sku = (await readField(doc, definition.fields.sku, json))[0]?.value;
+            const availabilityValues = await readField(doc, definition.fields.availability, json);
+
+            const price = prices[0]?.price || { raw: null, amount: null, currency: null };
+            const listing: ListingDetails = {
+                availability: readAvailability(availabilityValues),
+                stockHint: null,
+                seller: null,
+                flags: [],
+            };
+
+            return {
+                title: title || await extractMetaTitle(doc) || 'Unknown',
+                price: {
+                    ...price,
+                    candidates: prices
+                        .map(read => toCandidate(read.source, read.price))
+                        .filter((candidate): candidate is PriceCandidate => candidate !== null),
+                    listPrice: listPrice !== null && price.amount !== null && listPrice > price.amount ? listPrice : null,
+                },
+                image: image ? new URL(image, doc.url).toString() : await extractMetaImage(doc),
+                sku: sku || null,
+                listing,
+            };
+        },
+
+        getCleanUrl(url) {
+            return canonicalizeUrl(url, definition.canonicalUrl || {});
+        },
+    };
+}
@@ -0,0 +1,115 @@
+import { parse, HTMLElement } from 'node-html-parser';
+import { Page } from 'puppeteer';
+import { AdapterDocument, SelectorReport } from '../types.js';
+
+function clean(value: string | null | undefined): string | null {
+    const trimmed = value?.trim();
+    return trimmed ? trimmed : null;
+}
+
+/**
+ * Static HTML document (used by HTTP strategies)
+ */
+export class HtmlDocument implements AdapterDocument {
+    private root: HTMLElement;
+
+    constructor(private source: string, readonly url: string) {
+        this.root = parse(source);
+    }
+
+    async text(selector: string): Promise<string | null> {
+        return clean(this.root.querySelector(selector)?.text);
+    }
+
+    async textAll(selector: string): Promise<string[]> {
+        return this.root.querySelectorAll(selector)
+            .map(el => clean(el.text))
+            .filter((value): value is string => value !== null);
+    }
+
+    async attr(selector: string, attribute: string): Promise<string | null> {
+        return clean(this.root.querySelector(selector)?.getAttribute(attribute));
+    }
+
+    async html(): Promise<string> {
+        return this.source;
+    }
+}
+
+/**
+ * Live Puppeteer page (used by browser strategies)
+ * Callbacks are inline arrows so tsx does not wrap them with __name helpers
+ */
+export class PageDocument implements AdapterDocument {
+    constructor(private page: Page) {}
+
+    get url(): string {
+        return this.page.url();
+    }
+
+    async text(selector: string): Promise<string | null> {
+        const value = await this.page.$eval(selector, el => el.textContent).catch(() => null);
+        return clean(value);
+    }
+
+    async textAll(selector: string): Promise<string[]> {
+        const values = await this.page.$$eval(selector, els => els.map(el => el.textContent || '')).catch(() => []);
+        return values
+            .map(value => clean(value))
+            .filter((value): value is string => value !== null);
+    }
+
+    async attr(selector: string, attribute: string): Promise<string | null> {
+        const value = await this.page.$eval(selector, (el, name) => el.getAttribute(name), attribute).catch(() => null);
+        return clean(value);
+    }
+
+    async html(): Promise<string> {
+        return this.page.content();
+    }
+}
+
+/**
+ * Wraps a document to note which selectors the adapter queried and whether they matched
+ * (adapter health compares these across runs to name the selector that broke)
+ */
+export class ProbedDocument implements AdapterDocument {
+    private matched: Set<string> = new Set();
+    private missed: Set<string> = new Set();
+
+    constructor(private doc: AdapterDocument) {}
+
+    get url(): string {
+        return this.doc.url;
+    }
+
+    async text(selector: string): Promise<string | null> {
+        return this.note(selector, await this.doc.text(selector));
+    }
+
+    async textAll(selector: string): Promise<string[]> {
+        const values = await this.doc.textAll(selector);
+        this.note(selector, values.length > 0 ? values : null);
+        return values;
+    }
+
+    async attr(selector: string, attribute: string): Promise<string | null> {
+        return this.note(`${selector} @${attribute}`, await this.doc.attr(selector, attribute));
+    }
+
+    async html(): Promise<string> {
+        return this.doc.html();
+    }
+
+    report(): SelectorReport {
+        return {
+            matched: [...this.matched],
+            missed: [...this.missed].filter(selector => !this.matched.has(selector)),
+        };
+    }
+
+    private note<T>(selector: string, value: T | null): T | null {
+        (value !== null ? this.matched : this.missed).add(selector);
+        return value;
+    }
+}
@@ -0,0 +1,206 @@
+import { StoreAdapter, AdapterDocument, ExtractedPrice, ListingDetails, Availability, ConditionalPrice, PriceCandidate } from '../types.js';
+import { matchesDomain, extractMetaTitle, extractMetaImage, readNextData } from './helpers.js';
+import { readStructuredData, pickOffer, StructuredOffer } from './structured-data.js';
+import { toCandidate } from '../consensus.js';
+import { parsePrice, getStoreLocale, PriceLocale, ParsedPrice } from '../../utils/price-parser.js';
+import { ProductVariant } from '../../utils/variant-key.js';
+
+const FALABELLA_DOMAINS = ['falabella.com.co', 'falabella.cl', 'falabella.com.pe'];
+
+/** Price rows of the buy box, each carrying its amount in a data attribute */
+type FalabellaPriceType = 'cmrPrice' | 'eventPrice' | 'internetPrice' | 'normalPrice';
+
+const PRICE_ATTRIBUTES: Record<FalabellaPriceType, string> = {
+    cmrPrice: 'data-cmr-price',
+    eventPrice: 'data-event-price',
+    internetPrice: 'data-internet-price',
+    normalPrice: 'data-normal-price',
+};
+
+// Price the shopper pays without the store card, best first
+const SELLING_PRICE_TYPES: FalabellaPriceType[] = ['eventPrice', 'internetPrice', 'normalPrice'];
+
+interface FalabellaPrice {
+    type: FalabellaPriceType | string;
+    symbol?: string;
+    /** Formatted amount(s), e.g. ["1.299.990"] */
+    price: string[];
+    crossed?: boolean;
+}
+
+interface FalabellaVariant {
+    id: string;
+    name?: string;
+    prices?: FalabellaPrice[];
+    medias?: Array<{ url: string }>;
+    isPurchaseable?: boolean;
+}
+
+/** The pieces of __NEXT_DATA__.props.pageProps.productData the adapter reads */
+interface FalabellaProductData {
+    id: string;
+    name?: string;
+    currentVariant?: string;
+    variants?: FalabellaVariant[];
+    sellerId?: string;
+    sellerName?: string;
+}
+
+interface FalabellaPrices {
+    selling: ParsedPrice | null;
+    list: ParsedPrice | null;
+    cmr: ParsedPrice | null;
+}
+
+/**
+ * Variant SKU from a product URL (/product/<productId>/<slug>/<variantId>)
+ */
+export function extractFalabellaSku(url: string): string | null {
+    const match = new URL(url).pathname.match(/\/product\/\d+\/[^/]+\/(\d+)\/?$/);
+    return match ? match[1] : null;
+}
+
+async function readProductData(doc: AdapterDocument): Promise<FalabellaProductData | null> {
+    return (await readNextData(doc))?.props?.pageProps?.productData || null;
+}
+
+/**
+ * Variant named by the URL or the tracked variant key, else the one the page selected, else the first
+ */
+function pickVariant(data: FalabellaProductData | null, url: string, tracked?: ProductVariant | null): FalabellaVariant | null {
+    const variants = data?.variants || [];
+    const sku = extractFalabellaSku(url) || tracked?.sku || data?.currentVariant;
+    return variants.find(v => v.id === sku) || variants[0] || null;
+}
+
+/**
+ * Prices from the embedded product state (variant level)
+ */
+function readStatePrices(variant: FalabellaVariant | null, locale: PriceLocale): FalabellaPrices {
+    const read = (type: FalabellaPriceType): ParsedPrice | null => {
+        const entry = variant?.prices?.find(p => p.type === type);
+        if (!entry || !entry.price?.[0]) return null;
+        const price = parsePrice(`${entry.symbol || ''}${entry.price[0]}`, locale);
+        return price.amount !== null ? price : null;
+    };
+
+    const selling = SELLING_PRICE_TYPES.map(read).find(price => price !== null) || null;
+    const normal = read('normalPrice');
+    return {
+        selling,
+        list: normal && selling && normal.amount! > selling.amount! ? normal : null,
+        cmr: read('cmrPrice'),
+    };
+}
+
+/**
+ * Prices from the rendered buy box (data attributes on the price rows)
+ */
+async function readDomPrices(doc: AdapterDocument, locale: PriceLocale): Promise<FalabellaPrices> {
+    const read = async (type: FalabellaPriceType): Promise<ParsedPrice | null> => {
+        const attribute = PRICE_ATTRIBUTES[type];
+        const price = parsePrice(await doc.attr(`[${attribute}]`, attribute), locale);
+        return price.amount !== null ? price : null;
+    };
+
+    let selling: ParsedPrice | null = null;
+    for (const type of SELLING_PRICE_TYPES) {
+        selling = await read(type);
+        if (selling) break;
+    }
+    const normal = await read('normalPrice');
+    return {
+        selling,
+        list: normal && selling && normal.amount! > selling.amount! ? normal : null,
+        cmr: await read('cmrPrice'),
+    };
+}
+
+const NO_PRICES: FalabellaPrices = { selling: null, list: null, cmr: null };
+
+/**
+ * @param offer - JSON-LD offer of the rendered variant (null when another variant is tracked)
+ * @param rendered - Whether the buy box shows the tracked variant
+ */
+async function extractPrice(
+    doc: AdapterDocument,
+    variant: FalabellaVariant | null,
+    offer: StructuredOffer | null,
+    locale: PriceLocale,
+    rendered: boolean
+): Promise<ExtractedPrice> {
+    const state = readStatePrices(variant, locale);
+    const dom = rendered ? await readDomPrices(doc, locale) : NO_PRICES;
+
+    const candidates = [toCandidate('state', state.selling), toCandidate('json-ld', offer?.price), toCandidate('dom', dom.selling)]
+        .filter((candidate): candidate is PriceCandidate => candidate !== null);
+    const price: ExtractedPrice = state.selling || dom.selling || offer?.price || { raw: null, amount: null, currency: null };
+
+    // CMR (Banco Falabella card) price only applies when paying with the card
+    const cmr = state.cmr || dom.cmr;
+    const conditionalPrices: ConditionalPrice[] = cmr && price.amount !== null && cmr.amount! < price.amount
+        ? [{ amount: cmr.amount!, condition: 'CMR' }]
+        : [];
+
+    return {
+        ...price,
+        candidates,
+        listPrice: state.list?.amount ?? dom.list?.amount ?? null,
+        conditionalPrices,
+    };
+}
+
+function extractListing(data: FalabellaProductData | null, variant: FalabellaVariant | null, offer: StructuredOffer | null): ListingDetails {
+    let availability: Availability = offer?.availability || 'unknown';
+    if (variant?.isPurchaseable !== undefined) {
+        availability = variant.isPurchaseable ? 'in_stock' : 'out_of_stock';
+    }
+
+    const sellerName = data?.sellerName || offer?.seller?.name || null;
+    return {
+        availability,
+        stockHint: null,
+        seller: sellerName || data?.sellerId ? { id: data?.sellerId || null, name: sellerName } : null,
+        flags: [],
+    };
+}
+
+export const falabellaAdapter: StoreAdapter = {
+    id: 'falabella',
+    domains: FALABELLA_DOMAINS,
+    readySelector: '[data-internet-price], [data-event-price], [data-normal-price]',
+
+    detect(url) {
+        return matchesDomain(url.hostname, FALABELLA_DOMAINS);
+    },
+
+    async isProductPage(doc) {
+        return doc.url.includes('/product/') && (await readProductData(doc) !== null || await doc.attr('[data-normal-price]', 'data-normal-price') !== null);
+    },
+
+    async extract(doc, tracked) {
+        const locale = getStoreLocale(new URL(doc.url).hostname);
+        const data = await readProductData(doc);
+        const variant = pickVariant(data, doc.url, tracked);
+        const offer = pickOffer(readStructuredData(await doc.html(), doc.url));
+
+        // The buy box and JSON-LD describe the selected variant; another tracked variant only has its state
+        const rendered = !variant || !data?.currentVariant || variant.id === data.currentVariant;
+        const variantOffer = rendered ? offer : null;
+
+        return {
+            title: data?.name || offer?.productName || await extractMetaTitle(doc) || 'Unknown',
+            price: await extractPrice(doc, variant, variantOffer, locale, rendered),
+            image: variant?.medias?.[0]?.url || variantOffer?.image || await extractMetaImage(doc),
+            sku: variant?.id || extractFalabellaSku(doc.url) || variantOffer?.sku || null,
+            listing: extractListing(data, variant, variantOffer),
+        };
+    },
+
+    getCleanUrl(url) {
+        const urlObj = new URL(url);
+        urlObj.search = '';
+        urlObj.hash = '';
+        return urlObj.toString();
+    },
+};
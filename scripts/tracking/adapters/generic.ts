@@ -0,0 +1,86 @@
+import { StoreAdapter, AdapterDocument, ExtractedPrice, ListingDetails, PriceCandidate } from '../types.js';
+import { extractMetaTitle, extractMetaImage, extractMetaAvailability } from './helpers.js';
+import { readStructuredData, pickOffer, StructuredOffer, StructuredDataSource } from './structured-data.js';
+import { toCandidate } from '../consensus.js';
+import { parsePrice, getStoreLocale, ParsedPrice } from '../../utils/price-parser.js';
+
+const META_PRICE_SELECTORS = [
+    'meta[property="product:price:amount"]',
+    'meta[property="og:price:amount"]',
+    'meta[itemprop="price"]',
+];
+
+const STRUCTURED_SOURCES: StructuredDataSource[] = ['json-ld', 'microdata', 'rdfa'];
+
+async function extractPrice(doc: AdapterDocument, offers: StructuredOffer[]): Promise<ExtractedPrice> {
+    const locale = getStoreLocale(new URL(doc.url).hostname);
+    const offer = pickOffer(offers);
+
+    // 1. Structured data: one candidate per syntax the page uses
+    const candidates = STRUCTURED_SOURCES
+        .map(source => toCandidate(source, pickOffer(offers.filter(o => o.source === source))?.price))
+        .filter((candidate): candidate is PriceCandidate => candidate !== null);
+
+    // 2. Open Graph / loose meta tags (itemprop ones were already read as microdata)
+    const metaCurrency = await doc.attr('meta[property="product:price:currency"]', 'content')
+        || await doc.attr('meta[property="og:price:currency"]', 'content')
+        || await doc.attr('meta[itemprop="priceCurrency"]', 'content');
+    const hasMicrodata = candidates.some(candidate => candidate.source === 'microdata');
+    let meta: ParsedPrice | null = null;
+    for (const selector of META_PRICE_SELECTORS.filter(s => !hasMicrodata || !s.includes('itemprop'))) {
+        const price = parsePrice(await doc.attr(selector, 'content'), locale, { currency: metaCurrency });
+        if (price.amount !== null) {
+            meta = price;
+            break;
+        }
+    }
+    const metaCandidate = toCandidate('meta', meta);
+    if (metaCandidate) candidates.push(metaCandidate);
+
+    if (offer && offer.price.amount !== null) {
+        return { ...offer.price, listPrice: offer.listPrice, candidates };
+    }
+    return meta ? { ...meta, candidates } : { raw: null, amount: null, currency: null };
+}
+
+async function extractListing(doc: AdapterDocument, offers: StructuredOffer[]): Promise<ListingDetails> {
+    const offer = pickOffer(offers);
+    const availability = offer && offer.availability !== 'unknown' ? offer.availability : await extractMetaAvailability(doc);
+
+    return {
+        availability,
+        stockHint: null,
+        seller: offer?.seller || null,
+        flags: [],
+    };
+}
+
+/**
+ * Fallback adapter for stores without a dedicated one (structured data + meta tags)
+ * Must stay last in the registry since it accepts every URL
+ */
+export const genericAdapter: StoreAdapter = {
+    id: 'generic',
+    domains: [],
+    readySelector: '[itemprop="price"], script[type="application/ld+json"]',
+
+    detect() {
+        return true;
+    },
+
+    async isProductPage(doc) {
+        return (await extractPrice(doc, readStructuredData(await doc.html(), doc.url))).amount !== null;
+    },
+
+    async extract(doc) {
+        const offers = readStructuredData(await doc.html(), doc.url);
+        const offer = pickOffer(offers);
+        return {
+            title: await extractMetaTitle(doc) || offer?.productName || 'Unknown',
+            price: await extractPrice(doc, offers),
+            image: await extractMetaImage(doc) || offer?.image || null,
+            sku: offer?.sku || null,
+            listing: await extractListing(doc, offers),
+        };
+    },
+};
@@ -0,0 +1,107 @@
+import { AdapterDocument, Availability } from '../types.js';
+
+/**
+ * Check if a hostname belongs to any of the given domains
+ */
+export function matchesDomain(hostname: string, domains: string[]): boolean {
+    const host = hostname.replace('www.', '');
+    return domains.some(domain => host.includes(domain));
+}
+
+/**
+ * Read the og:title / <title> fallback shared by most stores
+ */
+export async function extractMetaTitle(doc: AdapterDocument): Promise<string | null> {
+    const ogTitle = await doc.attr('meta[property="og:title"]', 'content');
+    if (ogTitle) return ogTitle;
+
+    const pageTitle = await doc.text('title');
+    return pageTitle ? pageTitle.split('|')[0].trim() : null;
+}
+
+/**
+ * Read the og:image meta tag
+ */
+export async function extractMetaImage(doc: AdapterDocument): Promise<string | null> {
+    return doc.attr('meta[property="og:image"]', 'content');
+}
+
+/**
+ * Map a schema.org availability value (URL or bare name) to our availability
+ */
+export function parseAvailability(value: string | null | undefined): Availability {
+    if (!value) return 'unknown';
+    const name = value.split('/').pop()!.toLowerCase();
+
+    if (['instock', 'limitedavailability', 'onlineonly', 'instoreonly'].includes(name)) return 'in_stock';
+    if (['outofstock', 'oos', 'soldout', 'discontinued'].includes(name)) return 'out_of_stock';
+    if (['preorder', 'presale', 'backorder'].includes(name)) return 'preorder';
+    return 'unknown';
+}
+
+/**
+ * Read availability from microdata / Open Graph product tags
+ */
+export async function extractMetaAvailability(doc: AdapterDocument): Promise<Availability> {
+    const value = await doc.attr('[itemprop="availability"]', 'content')
+        || await doc.attr('link[itemprop="availability"]', 'href')
+        || await doc.attr('meta[property="product:availability"]', 'content')
+        || await doc.attr('meta[property="og:availability"]', 'content');
+    return parseAvailability(value?.replace(/\s+/g, ''));
+}
+
+/**
+ * Parse the JSON app state a page embeds in <script id="__NEXT_DATA__">
+ */
+export async function readNextData(doc: AdapterDocument): Promise<any | null> {
+    const match = (await doc.html()).match(/<script id="__NEXT_DATA__"[^>]*>([\s\S]*?)<\/script>/);
+    if (!match) return null;
+    try {
+        return JSON.parse(match[1]!);
+    } catch (e) {
+        return null;
+    }
+}
+
+/**
+ * Parse the object literal assigned after a marker in an inline script (e.g. "viewPayload =")
+ * Reads up to the matching closing brace, so trailing statements don't matter
+ */
+export function readScriptObject(html: string, marker: string): any | null {
+    const markerIndex = html.indexOf(marker);
+    if (markerIndex === -1) return null;
+    const start = html.indexOf('{', markerIndex + marker.length);
+    if (start === -1) return null;
+
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < html.length; i++) {
+        const char = html[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{') {
+            depth++;
+        } else if (char === '}' && --depth === 0) {
+            try {
+                return JSON.parse(html.slice(start, i + 1));
+            } catch (e) {
+                return null;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Every object in a parsed JSON tree that passes the test (app state nests products at
+ * paths that change between site releases)
+ */
+export function findObjects(root: any, test: (node: any) => boolean, found: any[] = []): any[] {
+    if (!root || typeof root !== 'object') return found;
+    if (!Array.isArray(root) && test(root)) found.push(root);
+    for (const value of Object.values(root)) findObjects(value, test, found);
+    return found;
+}
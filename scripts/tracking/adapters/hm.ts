@@ -0,0 +1,99 @@
+import { StoreAdapter } from '../types.js';
+import { extractMetaTitle, extractMetaImage, readNextData, findObjects } from './helpers.js';
+import { readStructuredData, pickOffer } from './structured-data.js';
+import { VariantOffer, extractVariant } from './variants.js';
+import { parsePrice, getUrlLocale, PriceLocale } from '../../utils/price-parser.js';
+
+/** productpage.<article>.html: 7-digit product + 3-digit color */
+const ARTICLE_PATTERN = /productpage\.(\d{10})\.html/;
+
+/** One color of productArticleDetails (white = regular price, red = sale price) */
+interface HmVariation {
+    articleCode?: string;
+    name?: string;
+    whitePriceValue?: string | number;
+    redPriceValue?: string | number;
+    sizes?: Array<{ sizeCode: string; name: string; available?: boolean; inStock?: boolean }>;
+}
+
+function readPrice(value: string | number | undefined, locale: PriceLocale) {
+    if (value === undefined || value === '' || isNaN(Number(value))) return null;
+    // The store's country (in the URL path) fixes the currency of the state's amounts
+    const price = parsePrice(Number(value), locale, { currency: locale.currency });
+    return price.amount ? price : null;
+}
+
+/**
+ * Colors from the article maps in the page state, keyed by article code
+ */
+function readVariations(nextData: any): HmVariation[] {
+    const isVariation = ([key, value]: [string, any]) => /^\d{10}$/.test(key) && value?.whitePriceValue !== undefined;
+    return findObjects(nextData, node => !Array.isArray(node) && Object.entries(node).some(isVariation))
+        .flatMap(map => Object.entries(map).filter(isVariation).map(([articleCode, variation]) => ({ articleCode, ...(variation as HmVariation) })));
+}
+
+function readOffers(variations: HmVariation[], locale: PriceLocale): VariantOffer[] {
+    return variations.flatMap((variation): VariantOffer[] => {
+        const sale = readPrice(variation.redPriceValue, locale);
+        const regular = readPrice(variation.whitePriceValue, locale);
+        const article = variation.articleCode || variation.sizes?.[0]?.sizeCode.substring(0, 10) || null;
+        const base = {
+            color: article,
+            colorName: variation.name || null,
+            price: sale || regular,
+            listPrice: sale && regular ? regular.amount : null,
+        };
+
+        // Per-size stock is only in the page when the store includes it
+        const sizes = variation.sizes || [];
+        if (sizes.length === 0) return [{ ...base, sku: article, size: null, availability: 'unknown' }];
+        return sizes.map(size => {
+            const available = size.available ?? size.inStock;
+            return {
+                ...base,
+                sku: size.sizeCode,
+                size: size.name,
+                availability: available === undefined ? 'unknown' : available ? 'in_stock' : 'out_of_stock',
+            };
+        });
+    });
+}
+
+export const hmAdapter: StoreAdapter = {
+    id: 'hm',
+    domains: ['hm.com'],
+    readySelector: 'script[type="application/ld+json"]',
+
+    detect(url) {
+        return /(^|\.)hm\.com$/.test(url.hostname.toLowerCase());
+    },
+
+    /** The article code in the URL is product + color */
+    getVariant(url) {
+        const article = url.match(ARTICLE_PATTERN)?.[1];
+        return article ? { color: article } : null;
+    },
+
+    async isProductPage(doc) {
+        return ARTICLE_PATTERN.test(doc.url);
+    },
+
+    async extract(doc, variant) {
+        const html = await doc.html();
+        const structured = pickOffer(readStructuredData(html, doc.url));
+        const offers = readOffers(readVariations(await readNextData(doc)), getUrlLocale(doc.url));
+
+        return extractVariant(offers, variant ?? this.getVariant!(doc.url), {
+            title: structured?.productName || await extractMetaTitle(doc) || 'Unknown',
+            image: await extractMetaImage(doc) || structured?.image || null,
+            structured,
+        });
+    },
+
+    getCleanUrl(url) {
+        const urlObj = new URL(url);
+        urlObj.search = '';
+        urlObj.hash = '';
+        return urlObj.toString();
+    },
+};
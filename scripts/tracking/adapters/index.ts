@@ -0,0 +1,101 @@
+/**
+ * Store Adapter Registry
+ * Each adapter is written once against AdapterDocument and shared by every strategy
+ */
+
+import { StoreAdapter, AdapterDocument } from '../types.js';
+import { ProductVariant } from '../../utils/variant-key.js';
+import { mercadoLibreAdapter } from './mercadolibre.js';
+import { amazonAdapter } from './amazon.js';
+import { vtexAdapter } from './vtex.js';
+import { falabellaAdapter } from './falabella.js';
+import { zaraAdapter } from './zara.js';
+import { hmAdapter } from './hm.js';
+import { nikeAdapter } from './nike.js';
+import { adidasAdapter } from './adidas.js';
+import { shopifyAdapter } from './shopify.js';
+import { genericAdapter } from './generic.js';
+import { createDeclarativeAdapter } from './declarative.js';
+import { getStoreDefinitions, StoreDefinition } from '../store-definitions.js';
+
+export { HtmlDocument, PageDocument, ProbedDocument } from './document.js';
+
+const ADAPTERS: StoreAdapter[] = [
+    mercadoLibreAdapter,
+    amazonAdapter,
+    vtexAdapter,
+    falabellaAdapter,
+    zaraAdapter,
+    hmAdapter,
+    nikeAdapter,
+    adidasAdapter,
+    shopifyAdapter,
+];
+
+// Hosts whose platform was recognized from one of their pages this run
+const PLATFORM_HOSTS: Map<string, StoreAdapter> = new Map();
+
+// Definition ids that already have an adapter
+const DECLARED: Set<string> = new Set();
+
+/**
+ * Register a store adapter (checked before previously registered ones)
+ */
+export function registerAdapter(adapter: StoreAdapter): void {
+    ADAPTERS.unshift(adapter);
+}
+
+/**
+ * Load the store definition files (stores/*.json) and add an adapter for each one not added yet;
+ * built-in adapters keep their domains
+ */
+export function registerStoreDefinitions(): StoreDefinition[] {
+    const definitions = getStoreDefinitions();
+    for (const definition of definitions.filter(d => !DECLARED.has(d.id))) {
+        DECLARED.add(definition.id);
+        const owner = ADAPTERS.find(a => definition.domains.some(domain => a.detect(new URL(`https://${domain}/`))));
+        if (owner) {
+            console.warn(`⚠️  Skipping store definition ${definition.file}: ${owner.id} adapter already handles its domains`);
+            continue;
+        }
+        ADAPTERS.push(createDeclarativeAdapter(definition));
+    }
+    return definitions;
+}
+
+/**
+ * Find the adapter for a product URL, falling back to the generic one
+ */
+export function getAdapterForUrl(url: string): StoreAdapter {
+    try {
+        const urlObj = new URL(url);
+        const adapter = ADAPTERS.find(a => a.detect(urlObj)) || PLATFORM_HOSTS.get(urlObj.hostname.replace(/^www\./, ''));
+        if (adapter) return adapter;
+    } catch (e) {}
+
+    return genericAdapter;
+}
+
+/**
+ * Variant a product URL points at (color in the URL, for stores whose adapters read it)
+ */
+export function getUrlVariant(url: string): ProductVariant | null {
+    try {
+        return getAdapterForUrl(url).getVariant?.(url) || null;
+    } catch (e) {
+        return null;
+    }
+}
+
+/**
+ * Recognize a platform adapter from a fetched page, remembering its host for the rest of the run
+ */
+export async function detectPlatform(doc: AdapterDocument): Promise<StoreAdapter | null> {
+    for (const adapter of ADAPTERS.filter(a => a.detectFromPage)) {
+        if (await adapter.detectFromPage!(doc)) {
+            PLATFORM_HOSTS.set(new URL(doc.url).hostname.replace(/^www\./, ''), adapter);
+            return adapter;
+        }
+    }
+    return null;
+}
@@ -0,0 +1,198 @@
+import { StoreAdapter, AdapterDocument, ExtractedPrice, ListingDetails, Availability, MarketplaceFlag, InstallmentPlan, PriceCandidate } from '../types.js';
+import { matchesDomain, extractMetaTitle, extractMetaImage, extractMetaAvailability } from './helpers.js';
+import { readStructuredData, pickOffer } from './structured-data.js';
+import { toCandidate } from '../consensus.js';
+import { parsePrice, getStoreLocale, PriceLocale, ParsedPrice } from '../../utils/price-parser.js';
+
+const PRICE_CONTAINERS = [
+    '.ui-pdp-price__second-line .andes-money-amount',
+    '.ui-pdp-price--main .andes-money-amount',
+    '.andes-money-amount:not(.andes-money-amount--previous)',
+];
+
+// Buy box lines that say whether (and how much) stock is left
+const STOCK_SELECTORS = [
+    '.ui-pdp-stock-information__title',
+    '.ui-pdp-buybox__quantity__available',
+    '.ui-pdp-message',
+    '.ui-pdp-promotions-pill-label',
+];
+
+const SELLER_SELECTORS = [
+    '.ui-pdp-seller__header__title',
+    '.ui-seller-data-header__title',
+    '.ui-pdp-seller__link-trigger',
+];
+
+const OUT_OF_STOCK_PATTERN = /sin stock|agotad|pausad|no disponible|sem estoque|esgotad/i;
+const IN_STOCK_PATTERN = /stock disponible|estoque dispon[ií]vel|disponibles?\)?$/i;
+const LOW_STOCK_PATTERN = /[uú]ltim[oa]s? (unidad|disponible|dispon[ií]vel)|^\(?[1-9] disponibles?\)?$/i;
+const OFFICIAL_STORE_PATTERN = /tienda oficial|loja oficial/i;
+
+function extractSku(url: string): string | null {
+    const urlMatch = url.match(/\/([A-Z]{3}-?\d+)-/);
+    return urlMatch ? urlMatch[1].replace('-', '') : null;
+}
+
+/**
+ * Resolve the marketplace id from a product URL
+ * Listing URLs (/MCO-123-...) carry an item id, catalog URLs (/p/MCO123) a catalog product id
+ */
+export function extractMercadoLibreId(url: string): { type: 'item' | 'product'; id: string } | null {
+    const itemId = extractSku(url);
+    if (itemId) return { type: 'item', id: itemId };
+
+    const catalogMatch = url.match(/\/p\/([A-Z]{3}\d+)/);
+    return catalogMatch ? { type: 'product', id: catalogMatch[1] } : null;
+}
+
+const LIST_PRICE_CONTAINER = '.ui-pdp-price__original-value, s.andes-money-amount--previous';
+const DISCOUNT_SELECTOR = '.ui-pdp-price__second-line .andes-money-amount__discount';
+const INSTALLMENTS_SELECTOR = '.ui-pdp-price__subtitles';
+
+/**
+ * Descendant selector for each alternative of a (possibly comma-separated) container
+ */
+function within(container: string, selector: string): string {
+    return container.split(',').map(alternative => `${alternative.trim()} ${selector}`).join(', ');
+}
+
+/**
+ * Read an .andes-money-amount (fraction + optional cents) inside a container
+ */
+async function readMoneyAmount(doc: AdapterDocument, container: string, locale: PriceLocale): Promise<ParsedPrice | null> {
+    const fraction = await doc.text(within(container, '.andes-money-amount__fraction'));
+    if (!fraction) return null;
+
+    // Cents render in their own element, so they never go through separator guessing
+    const price = parsePrice(fraction, locale);
+    const cents = await doc.text(within(container, '.andes-money-amount__cents'));
+    if (price.amount !== null && cents && /^\d{1,2}$/.test(cents)) {
+        price.amount += parseInt(cents, 10) / 10 ** cents.length;
+    }
+    return price.amount !== null ? price : null;
+}
+
+/**
+ * "Mismo precio en 12 cuotas de $ 10.825" / "12x $ 10.825 sin interés"
+ */
+async function extractInstallments(doc: AdapterDocument, locale: PriceLocale): Promise<InstallmentPlan[]> {
+    const text = await doc.text(INSTALLMENTS_SELECTOR);
+    const count = text?.match(/(\d+)\s*(cuotas|x|meses|parcelas)/i);
+    if (!text || !count) return [];
+
+    const amount = await readMoneyAmount(doc, INSTALLMENTS_SELECTOR, locale);
+    return [{
+        count: parseInt(count[1], 10),
+        amount: amount?.amount ?? null,
+        interestFree: /mismo precio|sin inter[eé]s|0\s*% de inter|sem juros/i.test(text),
+    }];
+}
+
+async function extractPrice(doc: AdapterDocument, locale: PriceLocale): Promise<ExtractedPrice> {
+    // Every read becomes a candidate; the consensus step settles disagreements
+    // 1. Meta Tag
+    const metaPrice = await doc.attr('meta[itemprop="price"]', 'content');
+    const metaCurrency = await doc.attr('meta[itemprop="priceCurrency"]', 'content');
+    const meta = metaPrice ? parsePrice(metaPrice, locale, { currency: metaCurrency }) : null;
+
+    // 2. JSON-LD (microdata would just repeat the meta tag)
+    const jsonLd = pickOffer(readStructuredData(await doc.html(), doc.url).filter(offer => offer.source === 'json-ld'));
+
+    // 3. DOM
+    let dom: ParsedPrice | null = null;
+    for (const container of PRICE_CONTAINERS) {
+        dom = await readMoneyAmount(doc, container, locale);
+        if (dom) break;
+    }
+
+    const candidates = [toCandidate('meta', meta), toCandidate('json-ld', jsonLd?.price), toCandidate('dom', dom)]
+        .filter((candidate): candidate is PriceCandidate => candidate !== null);
+    const price: ExtractedPrice = [meta, jsonLd?.price, dom].find(found => found && found.amount !== null)
+        || { raw: null, amount: null, currency: null };
+
+    // 3. Promotion: crossed-out price, "20% OFF" label, installments
+    const listPrice = await readMoneyAmount(doc, LIST_PRICE_CONTAINER, locale);
+    const discount = (await doc.text(DISCOUNT_SELECTOR))?.match(/(\d+)\s*%/);
+
+    return {
+        ...price,
+        candidates,
+        listPrice: listPrice?.amount ?? null,
+        discountPercent: discount ? parseInt(discount[1], 10) : null,
+        installments: await extractInstallments(doc, locale),
+    };
+}
+
+async function extractListing(doc: AdapterDocument): Promise<ListingDetails> {
+    const stockTexts = (await Promise.all(STOCK_SELECTORS.map(selector => doc.textAll(selector)))).flat();
+
+    let availability: Availability = await extractMetaAvailability(doc);
+    if (stockTexts.some(text => OUT_OF_STOCK_PATTERN.test(text))) {
+        availability = 'out_of_stock';
+    } else if (availability === 'unknown' && stockTexts.some(text => IN_STOCK_PATTERN.test(text))) {
+        availability = 'in_stock';
+    }
+
+    const sellerTexts = (await Promise.all(SELLER_SELECTORS.map(selector => doc.textAll(selector)))).flat();
+    const sellerName = sellerTexts[0]?.replace(/^(vendido por|tienda oficial|loja oficial)\s*/i, '').trim() || null;
+    const sellerId = await doc.attr('input[name="seller_id"]', 'value')
+        || (await doc.html()).match(/"seller_id"\s*:\s*"?(\d+)/)?.[1]
+        || null;
+
+    const flags: MarketplaceFlag[] = [];
+    if (await doc.attr('.ui-pdp-icon--full, svg[aria-label="FULL"]', 'class') !== null) {
+        flags.push('full');
+    }
+    if (sellerTexts.some(text => OFFICIAL_STORE_PATTERN.test(text)) || await doc.attr('.ui-pdp-official-store-label', 'class') !== null) {
+        flags.push('official_store');
+    }
+
+    return {
+        availability,
+        stockHint: stockTexts.find(text => LOW_STOCK_PATTERN.test(text)) || null,
+        seller: sellerName || sellerId ? { id: sellerId, name: sellerName } : null,
+        flags,
+    };
+}
+
+export const mercadoLibreAdapter: StoreAdapter = {
+    id: 'mercadolibre',
+    domains: ['mercadolibre', 'mercadolivre'],
+    readySelector: '.andes-money-amount__fraction, meta[itemprop="price"]',
+
+    detect(url) {
+        return matchesDomain(url.hostname, this.domains);
+    },
+
+    async isProductPage(doc) {
+        if (extractSku(doc.url)) return true;
+        return (await doc.text('h1.ui-pdp-title')) !== null;
+    },
+
+    async extract(doc) {
+        const locale = getStoreLocale(new URL(doc.url).hostname);
+
+        const title = await doc.text('h1.ui-pdp-title') || await extractMetaTitle(doc);
+        const price = await extractPrice(doc, locale);
+        const image = await extractMetaImage(doc) || await doc.attr('img.ui-pdp-image', 'src');
+        const sku = extractSku(doc.url) || await doc.attr('input[name="item_id"]', 'value');
+        const listing = await extractListing(doc);
+
+        return {
+            title: title || 'Unknown',
+            price,
+            image,
+            sku,
+            listing,
+        };
+    },
+
+    getCleanUrl(url) {
+        // Everything after the path is tracking/session data
+        const urlObj = new URL(url);
+        urlObj.search = '';
+        urlObj.hash = '';
+        return urlObj.toString();
+    },
+};
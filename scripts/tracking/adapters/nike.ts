@@ -0,0 +1,106 @@
+import { StoreAdapter, Availability } from '../types.js';
+import { extractMetaTitle, extractMetaImage, readNextData, findObjects } from './helpers.js';
+import { readStructuredData, pickOffer } from './structured-data.js';
+import { VariantOffer, extractVariant } from './variants.js';
+import { parsePrice, getUrlLocale, PriceLocale } from '../../utils/price-parser.js';
+
+/** Style-color at the end of product URLs (/t/<slug>/CW2288-111) */
+const STYLE_COLOR_PATTERN = /\/([A-Z0-9]{6}-\d{3})(?:[/?#]|$)/i;
+
+const SIZE_STATUS: Record<string, Availability> = {
+    ACTIVE: 'in_stock',
+    OOS: 'out_of_stock',
+    HOLD: 'out_of_stock',
+};
+
+/** A colorway in the page state: current layout (prices/sizes) or the older Threads one (skus/availableSkus) */
+interface NikeProduct {
+    styleColor: string;
+    colorDescription?: string;
+    productInfo?: { title?: string };
+    title?: string;
+    prices?: { currentPrice?: number; initialPrice?: number; currency?: string };
+    currentPrice?: number;
+    fullPrice?: number;
+    currency?: string;
+    sizes?: Array<{ label?: string; localizedLabel?: string; status?: string; merchSkuId?: string }>;
+    skus?: Array<{ skuId: string; nikeSize?: string; localizedSize?: string }>;
+    availableSkus?: Array<{ skuId?: string; id?: string; available?: boolean; level?: string }>;
+}
+
+function readOffers(products: NikeProduct[], locale: PriceLocale): VariantOffer[] {
+    const seen = new Set<string>();
+    return products.filter(p => !seen.has(p.styleColor) && seen.add(p.styleColor)).flatMap((product): VariantOffer[] => {
+        const current = product.prices?.currentPrice ?? product.currentPrice;
+        const full = product.prices?.initialPrice ?? product.fullPrice ?? null;
+        const currency = product.prices?.currency ?? product.currency ?? null;
+        const price = current ? parsePrice(current, locale, { currency }) : null;
+        const base = {
+            color: product.styleColor,
+            colorName: product.colorDescription || null,
+            price: price?.amount ? price : null,
+            listPrice: full,
+        };
+
+        if (product.sizes?.length) {
+            return product.sizes.map(size => ({
+                ...base,
+                sku: size.merchSkuId || null,
+                size: size.localizedLabel || size.label || null,
+                availability: SIZE_STATUS[size.status || ''] || 'unknown',
+            }));
+        }
+
+        return (product.skus || []).map(sku => {
+            const stock = product.availableSkus?.find(s => (s.skuId || s.id) === sku.skuId);
+            return {
+                ...base,
+                sku: sku.skuId,
+                size: sku.localizedSize || sku.nikeSize || null,
+                availability: !stock ? 'unknown' : stock.available ? 'in_stock' : 'out_of_stock',
+                stockHint: stock?.level === 'LOW' ? 'Pocas unidades' : null,
+            };
+        });
+    });
+}
+
+export const nikeAdapter: StoreAdapter = {
+    id: 'nike',
+    domains: ['nike.com'],
+    readySelector: '#__NEXT_DATA__, script[type="application/ld+json"]',
+
+    detect(url) {
+        return /(^|\.)nike\.com$/.test(url.hostname.toLowerCase());
+    },
+
+    getVariant(url) {
+        const styleColor = new URL(url).pathname.match(STYLE_COLOR_PATTERN)?.[1];
+        return styleColor ? { color: styleColor.toUpperCase() } : null;
+    },
+
+    async isProductPage(doc) {
+        return doc.url.includes('/t/');
+    },
+
+    async extract(doc, variant) {
+        const html = await doc.html();
+        const structured = pickOffer(readStructuredData(html, doc.url));
+        const products: NikeProduct[] = findObjects(await readNextData(doc),
+            node => typeof node.styleColor === 'string' && (Array.isArray(node.sizes) || Array.isArray(node.skus)));
+        const requested = variant ?? this.getVariant!(doc.url);
+        const selected = products.find(p => p.styleColor === requested?.color) || products[0];
+
+        return extractVariant(readOffers(products, getUrlLocale(doc.url)), requested, {
+            title: selected?.productInfo?.title || selected?.title || structured?.productName || await extractMetaTitle(doc) || 'Unknown',
+            image: await extractMetaImage(doc) || structured?.image || null,
+            structured,
+        });
+    },
+
+    getCleanUrl(url) {
+        const urlObj = new URL(url);
+        urlObj.search = '';
+        urlObj.hash = '';
+        return urlObj.toString();
+    },
+};
@@ -0,0 +1,168 @@
+import { StoreAdapter, AdapterDocument, ExtractedProduct } from '../types.js';
+import { genericAdapter } from './generic.js';
+import { toCandidate } from '../consensus.js';
+import { parsePrice, getStoreLocale } from '../../utils/price-parser.js';
+import { ProductVariant, normalizeVariantValue } from '../../utils/variant-key.js';
+
+// Markers every Shopify storefront theme renders
+const SHOPIFY_PAGE_PATTERN = /cdn\.shopify\.com|window\.Shopify\s*=|Shopify\.shop\s*=/;
+const SHOP_CURRENCY_PATTERN = /Shopify\.currency\s*=\s*\{[^}]*"active"\s*:\s*"([A-Z]{3})"/;
+
+// The product endpoint has no currency, so it is taken from the shop's pages
+const SHOP_CURRENCIES: Map<string, string> = new Map();
+
+/** /products/<handle>.js (prices in cents) */
+interface ShopifyVariant {
+    id: number;
+    title: string;
+    sku: string | null;
+    /** Option values (size, color...) in the shop's option order */
+    option1?: string | null;
+    option2?: string | null;
+    option3?: string | null;
+    price: number;
+    compare_at_price: number | null;
+    available: boolean;
+    featured_image?: { src: string } | null;
+}
+
+interface ShopifyProduct {
+    id: number;
+    title: string;
+    vendor?: string;
+    featured_image?: string | null;
+    variants: ShopifyVariant[];
+}
+
+function hostOf(url: string): string {
+    return new URL(url).hostname.replace(/^www\./, '');
+}
+
+/**
+ * Product handle from a storefront URL (/products/<handle>, also under /collections/... or a locale prefix)
+ */
+function extractHandle(url: string): string | null {
+    const match = new URL(url).pathname.match(/\/products\/([^/.?#]+)/);
+    return match ? match[1]! : null;
+}
+
+async function readProductJson(doc: AdapterDocument): Promise<ShopifyProduct | null> {
+    const body = (await doc.html()).trim();
+    if (!body.startsWith('{')) return null;
+    try {
+        const product = JSON.parse(body) as ShopifyProduct;
+        return Array.isArray(product.variants) ? product : null;
+    } catch (e) {
+        return null;
+    }
+}
+
+function absoluteImage(src: string | null | undefined): string | null {
+    if (!src) return null;
+    return src.startsWith('//') ? `https:${src}` : src;
+}
+
+function same(a: string | number | null | undefined, b: string | null | undefined): boolean {
+    const normalized = normalizeVariantValue(a === null || a === undefined ? null : String(a));
+    return normalized !== null && normalized === normalizeVariantValue(b);
+}
+
+/**
+ * Variant a tracked variant key names: its SKU (or variant id), else its color and size
+ * among the variant's option values
+ */
+function findTrackedVariant(variants: ShopifyVariant[], tracked: ProductVariant): ShopifyVariant | undefined {
+    if (tracked.sku) return variants.find(v => same(v.sku, tracked.sku) || same(v.id, tracked.sku));
+
+    const options = (v: ShopifyVariant) => [v.option1, v.option2, v.option3];
+    return variants.find(v => [tracked.color, tracked.size].every(value => !value || options(v).some(option => same(option, value))));
+}
+
+/**
+ * Exact variant price and availability from the product endpoint
+ * The variant comes from the URL's ?variant=, else the tracked variant key, else the first
+ * available one. A tracked variant the shop no longer lists is reported out of stock, unpriced.
+ */
+export function extractFromShopifyProduct(product: ShopifyProduct, url: string, tracked?: ProductVariant | null): ExtractedProduct {
+    const variantId = new URL(url).searchParams.get('variant');
+    const fromUrl = product.variants.find(v => String(v.id) === variantId);
+    const wanted = !fromUrl && tracked && (tracked.sku || tracked.color || tracked.size) ? tracked : null;
+    const trackedVariant = wanted ? findTrackedVariant(product.variants, wanted) : undefined;
+    // A tracked variant the shop no longer lists has no price of its own
+    const delisted = !!wanted && !trackedVariant;
+    const variant = delisted ? undefined : fromUrl || trackedVariant || product.variants.find(v => v.available) || product.variants[0];
+
+    const currency = SHOP_CURRENCIES.get(hostOf(url)) || getStoreLocale(hostOf(url)).currency;
+    const parsed = variant ? parsePrice(variant.price / 100, url, { currency }) : null;
+    const price = parsed || { raw: null, amount: null, currency: null };
+    const candidate = toCandidate('api', parsed);
+    const compareAt = variant?.compare_at_price ? variant.compare_at_price / 100 : null;
+
+    return {
+        title: product.title,
+        price: {
+            ...price,
+            candidates: candidate ? [candidate] : [],
+            listPrice: compareAt !== null && price.amount !== null && compareAt > price.amount ? compareAt : null,
+        },
+        image: absoluteImage(variant?.featured_image?.src) || absoluteImage(product.featured_image),
+        sku: variant ? variant.sku || String(variant.id) : null,
+        listing: {
+            availability: delisted ? 'out_of_stock' : !variant ? 'unknown' : variant.available ? 'in_stock' : 'out_of_stock',
+            stockHint: null,
+            seller: product.vendor ? { id: null, name: product.vendor } : null,
+            flags: [],
+        },
+    };
+}
+
+/**
+ * Shopify storefronts on any domain: recognized from the page, then read from
+ * /products/<handle>.js over HTTP. Rendered pages fall back to the generic adapter
+ */
+export const shopifyAdapter: StoreAdapter = {
+    id: 'shopify',
+    domains: ['myshopify.com'],
+    readySelector: 'script[type="application/ld+json"], [itemprop="price"]',
+
+    detect(url) {
+        return url.hostname.endsWith('.myshopify.com');
+    },
+
+    async detectFromPage(doc) {
+        const html = await doc.html();
+        if (!extractHandle(doc.url) || !SHOPIFY_PAGE_PATTERN.test(html)) return false;
+
+        const currency = html.match(SHOP_CURRENCY_PATTERN)?.[1]
+            || await doc.attr('meta[property="og:price:currency"]', 'content');
+        if (currency) SHOP_CURRENCIES.set(hostOf(doc.url), currency.toUpperCase());
+        return true;
+    },
+
+    getDataUrl(url) {
+        const handle = extractHandle(url);
+        if (!handle) return null;
+
+        // The variant rides along so extract() can pick it from the endpoint's URL
+        const urlObj = new URL(url);
+        const variant = urlObj.searchParams.get('variant');
+        return `${urlObj.origin}/products/${handle}.js${variant ? `?variant=${variant}` : ''}`;
+    },
+
+    async isProductPage(doc) {
+        return await readProductJson(doc) !== null || genericAdapter.isProductPage(doc);
+    },
+
+    async extract(doc, variant) {
+        const product = await readProductJson(doc);
+        return product ? extractFromShopifyProduct(product, doc.url, variant) : genericAdapter.extract(doc, variant);
+    },
+
+    getCleanUrl(url) {
+        const urlObj = new URL(url);
+        const handle = extractHandle(url);
+        const variant = urlObj.searchParams.get('variant');
+        if (!handle) return url;
+        return `${urlObj.origin}/products/${handle}${variant ? `?variant=${variant}` : ''}`;
+    },
+};
@@ -0,0 +1,307 @@
+/**
+ * Structured Data Reader
+ * Collects every schema.org Product/Offer on a page from all JSON-LD blocks (including
+ * @graph and @id references), microdata (itemscope/itemprop) and RDFa (typeof/property),
+ * and normalizes them into one offer list. Lets stores without a dedicated adapter be
+ * tracked over plain HTTP.
+ */
+
+import { parse, HTMLElement } from 'node-html-parser';
+import { Availability, SellerInfo } from '../types.js';
+import { parseAvailability } from './helpers.js';
+import { parsePrice, getStoreLocale, ParsedPrice, PriceLocale } from '../../utils/price-parser.js';
+
+export type StructuredDataSource = 'json-ld' | 'microdata' | 'rdfa';
+
+export interface StructuredOffer {
+    source: StructuredDataSource;
+    /** Product the offer belongs to (null for a standalone Offer) */
+    productName: string | null;
+    sku: string | null;
+    image: string | null;
+    /** Offer price, or lowPrice for an AggregateOffer */
+    price: ParsedPrice;
+    /** AggregateOffer highPrice */
+    highPrice: number | null;
+    /** Crossed-out price (ListPrice/StrikethroughPrice specification) */
+    listPrice: number | null;
+    availability: Availability;
+    seller: SellerInfo | null;
+    url: string | null;
+}
+
+type Node = Record<string, any>;
+
+const PRODUCT_TYPES = ['Product', 'ProductGroup', 'IndividualProduct', 'ProductModel'];
+const OFFER_TYPES = ['Offer', 'AggregateOffer'];
+
+function typesOf(node: Node): string[] {
+    return [].concat(node['@type'] || []).map((type: string) => String(type).split(/[/:]/).pop()!);
+}
+
+function isType(node: Node, types: string[]): boolean {
+    return typesOf(node).some(type => types.includes(type));
+}
+
+function asArray(value: any): any[] {
+    return value === undefined || value === null ? [] : [].concat(value);
+}
+
+/** First string out of a value that may be a string, an array, or an object with name/url/@id */
+function asText(value: any): string | null {
+    const first = asArray(value)[0];
+    if (first === undefined) return null;
+    if (typeof first === 'object') return asText(first.url ?? first.name ?? first['@id'] ?? first['@value']);
+    const text = String(first).trim();
+    return text || null;
+}
+
+/**
+ * Parse a JSON-LD block, tolerating the raw newlines and trailing commas stores often leave in
+ */
+function parseJsonLd(text: string): any | null {
+    try {
+        return JSON.parse(text);
+    } catch (e) {}
+
+    try {
+        return JSON.parse(text.replace(/[\u0000-\u001F]+/g, ' ').replace(/,\s*([}\]])/g, '$1'));
+    } catch (e) {
+        return null;
+    }
+}
+
+/**
+ * Flatten JSON-LD roots (arrays, @graph) into every object node they contain
+ */
+function collectNodes(value: any, nodes: Node[] = []): Node[] {
+    if (Array.isArray(value)) {
+        value.forEach(item => collectNodes(item, nodes));
+    } else if (value && typeof value === 'object') {
+        nodes.push(value);
+        for (const [key, child] of Object.entries(value)) {
+            if (key !== '@context') collectNodes(child, nodes);
+        }
+    }
+    return nodes;
+}
+
+function readJsonLdOffers(blocks: string[], locale: PriceLocale): StructuredOffer[] {
+    const nodes = blocks.map(parseJsonLd).filter(root => root !== null).flatMap(root => collectNodes(root));
+
+    // Offers are sometimes only referenced by @id from the product
+    const byId: Map<string, Node> = new Map();
+    for (const node of nodes) {
+        if (typeof node['@id'] === 'string' && Object.keys(node).length > 1) byId.set(node['@id'], node);
+    }
+    const resolve = (node: any): any => (node && typeof node === 'object' && node['@id'] && Object.keys(node).length === 1)
+        ? byId.get(node['@id']) || node
+        : node;
+
+    const offers: StructuredOffer[] = [];
+    const seen: Set<Node> = new Set();
+
+    const addOffer = (offerNode: Node, product: Node | null, parentCurrency: string | null = null) => {
+        const offer = resolve(offerNode);
+        if (!offer || typeof offer !== 'object' || seen.has(offer)) return;
+        seen.add(offer);
+
+        const normalized = normalizeJsonLdOffer(offer, product, locale, resolve, parentCurrency);
+        offers.push(normalized);
+
+        // AggregateOffer can list its individual offers too (inheriting its currency)
+        for (const child of asArray(offer.offers)) addOffer(child, product, normalized.price.currency);
+    };
+
+    const addProduct = (productNode: Node) => {
+        const product = resolve(productNode);
+        if (!product || seen.has(product)) return;
+        seen.add(product);
+
+        for (const offer of asArray(product.offers)) addOffer(offer, product);
+        // ProductGroup: every variant carries its own offers
+        for (const variant of asArray(product.hasVariant)) addProduct(variant);
+    };
+
+    nodes.filter(node => isType(node, PRODUCT_TYPES)).forEach(addProduct);
+    // Standalone offers (e.g. a bare Offer in @graph pointing at itemOffered)
+    nodes.filter(node => isType(node, OFFER_TYPES) && !seen.has(node)).forEach(node => {
+        const item = resolve(node.itemOffered);
+        addOffer(node, item && typeof item === 'object' && isType(item, PRODUCT_TYPES) ? item : null);
+    });
+
+    return offers;
+}
+
+function normalizeJsonLdOffer(
+    offer: Node,
+    product: Node | null,
+    locale: PriceLocale,
+    resolve: (node: any) => any,
+    parentCurrency: string | null
+): StructuredOffer {
+    const specs = asArray(offer.priceSpecification).map(resolve);
+    const currency = asText(offer.priceCurrency) || asText(specs.find(spec => spec?.priceCurrency)?.priceCurrency) || parentCurrency;
+
+    // Price may live on the offer or only in its (non list-price) specification
+    const saleSpec = specs.find(spec => spec?.price !== undefined && !/ListPrice|StrikethroughPrice/.test(spec?.priceType || ''));
+    const listSpec = specs.find(spec => /ListPrice|StrikethroughPrice/.test(spec?.priceType || ''));
+    const priceValue = offer.price ?? offer.lowPrice ?? saleSpec?.price;
+
+    const seller = resolve(asArray(offer.seller)[0]);
+
+    return {
+        source: 'json-ld',
+        productName: asText(product?.name),
+        sku: asText(offer.sku ?? product?.sku ?? product?.productID),
+        image: asText(product?.image),
+        price: parsePrice(typeof priceValue === 'object' ? asText(priceValue) : priceValue, locale, { currency }),
+        highPrice: offer.highPrice !== undefined ? parsePrice(offer.highPrice, locale, { currency }).amount : null,
+        listPrice: listSpec ? parsePrice(listSpec.price, locale, { currency }).amount : null,
+        availability: parseAvailability(asText(offer.availability)),
+        seller: seller?.name ? { id: asText(seller['@id']), name: asText(seller.name)! } : null,
+        url: asText(offer.url ?? product?.url),
+    };
+}
+
+interface Vocabulary {
+    source: StructuredDataSource;
+    /** Attribute that opens an item scope */
+    scopeAttr: string;
+    /** Attribute holding the item type */
+    typeAttr: string;
+    /** Attribute holding property names */
+    propAttr: string;
+}
+
+const MICRODATA: Vocabulary = { source: 'microdata', scopeAttr: 'itemscope', typeAttr: 'itemtype', propAttr: 'itemprop' };
+const RDFA: Vocabulary = { source: 'rdfa', scopeAttr: 'typeof', typeAttr: 'typeof', propAttr: 'property' };
+
+function elementTypes(el: HTMLElement, vocab: Vocabulary): string[] {
+    return (el.getAttribute(vocab.typeAttr) || '').split(/\s+/).filter(Boolean).map(type => type.split(/[/:#]/).pop()!);
+}
+
+function isScope(el: HTMLElement, vocab: Vocabulary): boolean {
+    return el.hasAttribute(vocab.scopeAttr);
+}
+
+/** Property names on an element ("schema:price" -> "price") */
+function propNames(el: HTMLElement, vocab: Vocabulary): string[] {
+    return (el.getAttribute(vocab.propAttr) || '').split(/\s+/).filter(Boolean).map(name => name.split(/[/:#]/).pop()!);
+}
+
+/** Nearest enclosing item scope of an element */
+function owningScope(el: HTMLElement, vocab: Vocabulary): HTMLElement | null {
+    let parent = el.parentNode as HTMLElement | null;
+    while (parent && parent.tagName) {
+        if (isScope(parent, vocab)) return parent;
+        parent = parent.parentNode as HTMLElement | null;
+    }
+    return null;
+}
+
+/** Elements carrying properties of this scope (not of nested items) */
+function ownProps(scope: HTMLElement, vocab: Vocabulary, name: string): HTMLElement[] {
+    return scope.querySelectorAll(`[${vocab.propAttr}]`)
+        .filter(el => propNames(el, vocab).includes(name) && owningScope(el, vocab) === scope);
+}
+
+function propValue(el: HTMLElement): string | null {
+    const tag = el.tagName.toLowerCase();
+    const value = el.getAttribute('content')
+        ?? (tag === 'link' || tag === 'a' ? el.getAttribute('href') : undefined)
+        ?? (tag === 'img' ? el.getAttribute('src') : undefined)
+        ?? (tag === 'time' ? el.getAttribute('datetime') : undefined)
+        ?? el.getAttribute('value')
+        ?? el.text;
+    const text = value?.replace(/\s+/g, ' ').trim();
+    return text || null;
+}
+
+function readProp(scope: HTMLElement, vocab: Vocabulary, name: string): string | null {
+    for (const el of ownProps(scope, vocab, name)) {
+        const value = propValue(el);
+        if (value) return value;
+    }
+    return null;
+}
+
+function readDomOffers(root: HTMLElement, vocab: Vocabulary, locale: PriceLocale): StructuredOffer[] {
+    const scopes = root.querySelectorAll(`[${vocab.scopeAttr}]`);
+    const offers: StructuredOffer[] = [];
+    const seen: Set<HTMLElement> = new Set();
+
+    const normalize = (offer: HTMLElement, product: HTMLElement | null): StructuredOffer => {
+        const currency = readProp(offer, vocab, 'priceCurrency');
+        const listScope = ownProps(offer, vocab, 'priceSpecification')
+            .find(spec => /ListPrice|StrikethroughPrice/.test(readProp(spec, vocab, 'priceType') || ''));
+        const sellerScope = ownProps(offer, vocab, 'seller').find(el => isScope(el, vocab));
+        const sellerName = sellerScope ? readProp(sellerScope, vocab, 'name') : readProp(offer, vocab, 'seller');
+        const highPrice = readProp(offer, vocab, 'highPrice');
+
+        return {
+            source: vocab.source,
+            productName: product ? readProp(product, vocab, 'name') : null,
+            sku: readProp(offer, vocab, 'sku') || (product ? readProp(product, vocab, 'sku') || readProp(product, vocab, 'productID') : null),
+            image: product ? readProp(product, vocab, 'image') : null,
+            price: parsePrice(readProp(offer, vocab, 'price') || readProp(offer, vocab, 'lowPrice'), locale, { currency }),
+            highPrice: highPrice ? parsePrice(highPrice, locale, { currency }).amount : null,
+            listPrice: listScope ? parsePrice(readProp(listScope, vocab, 'price'), locale, { currency }).amount : null,
+            availability: parseAvailability(readProp(offer, vocab, 'availability')?.replace(/\s+/g, '')),
+            seller: sellerName ? { id: null, name: sellerName } : null,
+            url: readProp(offer, vocab, 'url') || (product ? readProp(product, vocab, 'url') : null),
+        };
+    };
+
+    const addOffers = (scope: HTMLElement, product: HTMLElement | null) => {
+        for (const offer of ownProps(scope, vocab, 'offers').filter(el => isScope(el, vocab))) {
+            if (seen.has(offer)) continue;
+            seen.add(offer);
+            offers.push(normalize(offer, product));
+            // AggregateOffer with nested offers
+            addOffers(offer, product);
+        }
+    };
+
+    for (const scope of scopes) {
+        if (elementTypes(scope, vocab).some(type => PRODUCT_TYPES.includes(type))) addOffers(scope, scope);
+    }
+    for (const scope of scopes) {
+        if (!seen.has(scope) && elementTypes(scope, vocab).some(type => OFFER_TYPES.includes(type))) {
+            seen.add(scope);
+            offers.push(normalize(scope, null));
+        }
+    }
+
+    return offers;
+}
+
+/**
+ * Every Product/Offer on a page, JSON-LD first, then microdata, then RDFa
+ * @param html - Page HTML (raw response or rendered DOM)
+ * @param url - Page URL (picks the price locale)
+ */
+export function readStructuredData(html: string, url: string): StructuredOffer[] {
+    const locale = getStoreLocale(new URL(url).hostname);
+    const root = parse(html);
+
+    const jsonLdBlocks = root.querySelectorAll('script[type="application/ld+json"]').map(el => el.text);
+
+    return [
+        ...readJsonLdOffers(jsonLdBlocks, locale),
+        ...readDomOffers(root, MICRODATA, locale),
+        ...readDomOffers(root, RDFA, locale),
+    ];
+}
+
+/**
+ * Offer that represents the page: priced, preferring one known to be in stock
+ */
+export function pickOffer(offers: StructuredOffer[]): StructuredOffer | null {
+    const priced = offers.filter(offer => offer.price.amount !== null && offer.price.amount > 0);
+    return priced.find(offer => offer.availability === 'in_stock')
+        || priced.find(offer => offer.availability !== 'out_of_stock')
+        || priced[0]
+        || offers.find(offer => offer.availability !== 'unknown')
+        || null;
+}
@@ -0,0 +1,92 @@
+/**
+ * Size/Color Variants
+ * Fashion stores price and stock each size and color separately. Their adapters list every
+ * variant they find as a VariantOffer; this picks the one the product tracks (its variant key)
+ * and turns it into the extraction every strategy reports.
+ */
+
+import { ExtractedProduct, Availability, PriceCandidate } from '../types.js';
+import { StructuredOffer } from './structured-data.js';
+import { toCandidate } from '../consensus.js';
+import { ParsedPrice } from '../../utils/price-parser.js';
+import { ProductVariant, normalizeVariantValue } from '../../utils/variant-key.js';
+
+export interface VariantOffer {
+    sku: string | null;
+    /** Color code as it appears in the store's URLs */
+    color: string | null;
+    /** Color as the store shows it ("Negro") */
+    colorName: string | null;
+    size: string | null;
+    price: ParsedPrice | null;
+    listPrice: number | null;
+    availability: Availability;
+    stockHint?: string | null;
+}
+
+function same(a: string | null | undefined, b: string | null | undefined): boolean {
+    const normalized = normalizeVariantValue(a);
+    return normalized !== null && normalized === normalizeVariantValue(b);
+}
+
+function matches(offer: VariantOffer, variant: ProductVariant): boolean {
+    if (variant.sku && !same(offer.sku, variant.sku)) return false;
+    if (variant.color && !same(offer.color, variant.color) && !same(offer.colorName, variant.color)) return false;
+    if (variant.size && !same(offer.size, variant.size)) return false;
+    return true;
+}
+
+/**
+ * Best offer among those matching the variant: priced and in stock, else priced, else any
+ */
+export function pickVariantOffer(offers: VariantOffer[], variant: ProductVariant | null | undefined): VariantOffer | null {
+    const matching = variant ? offers.filter(offer => matches(offer, variant)) : offers;
+    return matching.find(offer => offer.price && offer.availability === 'in_stock')
+        || matching.find(offer => offer.price)
+        || matching[0]
+        || null;
+}
+
+/**
+ * Extraction for the tracked variant
+ * A size the store no longer lists is reported out of stock, at its color's price.
+ * The page's structured offer only counts when it is the picked variant's (same SKU): it
+ * describes the default size/color, not necessarily the tracked one.
+ */
+export function extractVariant(
+    offers: VariantOffer[],
+    variant: ProductVariant | null | undefined,
+    product: { title: string; image: string | null; structured: StructuredOffer | null }
+): ExtractedProduct {
+    let offer = pickVariantOffer(offers, variant);
+    let availability = offer?.availability || null;
+    if (!offer && variant && offers.length > 0) {
+        offer = pickVariantOffer(offers, variant.color ? { color: variant.color } : null);
+        availability = 'out_of_stock';
+    }
+
+    const structured = !offer || same(product.structured?.sku, offer.sku) ? product.structured : null;
+    availability ??= structured?.availability || 'unknown';
+
+    const candidates = [toCandidate('state', offer?.price), structured ? toCandidate(structured.source, structured.price) : null]
+        .filter((candidate): candidate is PriceCandidate => candidate !== null);
+    const price = offer?.price || structured?.price || { raw: null, amount: null, currency: null };
+    const listPrice = offer?.listPrice ?? structured?.listPrice ?? null;
+
+    return {
+        title: product.title,
+        price: {
+            ...price,
+            candidates,
+            listPrice: listPrice !== null && price.amount !== null && listPrice > price.amount ? listPrice : null,
+        },
+        image: product.image,
+        sku: offer?.sku || structured?.sku || null,
+        listing: {
+            availability,
+            stockHint: offer?.stockHint || null,
+            seller: null,
+            flags: [],
+        },
+    };
+}
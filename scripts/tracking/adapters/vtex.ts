@@ -0,0 +1,223 @@
+import { StoreAdapter, AdapterDocument, ExtractedProduct, ListingDetails, InstallmentPlan, ConditionalPrice, Availability, TrackingErrorCode } from '../types.js';
+import { TrackingError } from '../errors.js';
+import { matchesDomain } from './helpers.js';
+import { genericAdapter } from './generic.js';
+import { toCandidate } from '../consensus.js';
+import { parsePrice, getStoreLocale } from '../../utils/price-parser.js';
+import { ProductVariant } from '../../utils/variant-key.js';
+
+/**
+ * Stores running on VTEX. Adding a domain here is all a VTEX store needs:
+ * product URLs end in /<slug>/p and the catalog API lives on the same host
+ */
+export const VTEX_DOMAINS = [
+    'exito.com',
+    'carulla.com',
+    'tiendasjumbo.co',
+    'tiendasmetro.co',
+    'olimpica.com',
+    'jumbo.cl',
+    'santaisabel.cl',
+    'plazavea.com.pe',
+    'promart.pe',
+    'chedraui.com.mx',
+];
+
+// Below this many units the listing shows as low stock
+const LOW_STOCK_QUANTITY = 5;
+
+/** Teaser fields come either plain or as .NET backing fields ("<Name>k__BackingField") */
+type VtexRecord = Record<string, any>;
+
+interface VtexCommertialOffer {
+    Price: number;
+    ListPrice: number;
+    PriceWithoutDiscount: number;
+    AvailableQuantity: number;
+    IsAvailable?: boolean;
+    Installments?: Array<{ Value: number; InterestRate: number; NumberOfInstallments: number; PaymentSystemName: string }>;
+    Teasers?: VtexRecord[];
+    PromotionTeasers?: VtexRecord[];
+}
+
+interface VtexSeller {
+    sellerId: string;
+    sellerName: string;
+    sellerDefault: boolean;
+    commertialOffer: VtexCommertialOffer;
+}
+
+interface VtexItem {
+    itemId: string;
+    name: string;
+    images?: Array<{ imageUrl: string }>;
+    sellers: VtexSeller[];
+}
+
+interface VtexProduct {
+    productId: string;
+    productName: string;
+    link: string;
+    items: VtexItem[];
+}
+
+/**
+ * SKU requested by the URL: ?skuId= on a product page, fq=skuId: on a catalog query
+ */
+function getRequestedSku(url: string): string | null {
+    const params = new URL(url).searchParams;
+    return params.get('skuId') || params.get('fq')?.match(/^skuId:(\d+)$/)?.[1] || null;
+}
+
+/**
+ * Catalog search response, or null when the document is a rendered page
+ */
+async function readCatalogResponse(doc: AdapterDocument): Promise<VtexProduct[] | null> {
+    const body = (await doc.html()).trim();
+    if (!body.startsWith('[')) return null;
+    try {
+        return JSON.parse(body) as VtexProduct[];
+    } catch (e) {
+        return null;
+    }
+}
+
+function field(record: VtexRecord, name: string): any {
+    return record[name] ?? record[`<${name}>k__BackingField`];
+}
+
+/**
+ * Longest installment plan, interest-free ones first
+ */
+function toInstallments(offer: VtexCommertialOffer): InstallmentPlan[] {
+    const plans = (offer.Installments || []).filter(plan => plan.NumberOfInstallments > 1);
+    if (plans.length === 0) return [];
+
+    const interestFree = plans.filter(plan => plan.InterestRate === 0);
+    const best = (interestFree.length > 0 ? interestFree : plans)
+        .reduce((a, b) => b.NumberOfInstallments > a.NumberOfInstallments ? b : a);
+    return [{ count: best.NumberOfInstallments, amount: best.Value, interestFree: best.InterestRate === 0 }];
+}
+
+/**
+ * Promotions tied to a payment method (e.g. "Tarjeta Éxito") as conditional prices
+ */
+function toConditionalPrices(offer: VtexCommertialOffer): ConditionalPrice[] {
+    const teasers = [...(offer.Teasers || []), ...(offer.PromotionTeasers || [])];
+    const prices: ConditionalPrice[] = [];
+
+    for (const teaser of teasers) {
+        const conditions: VtexRecord[] = field(field(teaser, 'Conditions') || {}, 'Parameters') || [];
+        if (!conditions.some(param => /PaymentMethod/i.test(field(param, 'Name')))) continue;
+
+        const effects: VtexRecord[] = field(field(teaser, 'Effects') || {}, 'Parameters') || [];
+        const percent = effects.find(param => field(param, 'Name') === 'PercentualDiscount');
+        const nominal = effects.find(param => field(param, 'Name') === 'NominalDiscount');
+
+        let amount: number | null = null;
+        if (percent) amount = offer.Price * (1 - Number(field(percent, 'Value')) / 100);
+        else if (nominal) amount = offer.Price - Number(field(nominal, 'Value'));
+
+        if (amount !== null && amount > 0 && amount < offer.Price) {
+            prices.push({ amount: Math.round(amount * 100) / 100, condition: field(teaser, 'Name') || 'Medio de pago' });
+        }
+    }
+    return prices;
+}
+
+function toListing(seller: VtexSeller | undefined): ListingDetails {
+    const offer = seller?.commertialOffer;
+    const quantity = offer?.AvailableQuantity ?? 0;
+    let availability: Availability = 'unknown';
+    if (offer) {
+        availability = (offer.IsAvailable ?? true) && quantity > 0 ? 'in_stock' : 'out_of_stock';
+    }
+
+    return {
+        availability,
+        stockHint: quantity > 0 && quantity <= LOW_STOCK_QUANTITY ? `${quantity} disponibles` : null,
+        seller: seller ? { id: seller.sellerId, name: seller.sellerName } : null,
+        flags: [],
+    };
+}
+
+/**
+ * SKU-level price, list price and availability from a catalog search product
+ */
+export function extractFromCatalogProduct(product: VtexProduct, url: string, variant?: ProductVariant | null): ExtractedProduct {
+    const requested = getRequestedSku(url) || variant?.sku;
+    const item = product.items.find(i => i.itemId === requested)
+        || product.items.find(i => i.sellers.some(s => s.commertialOffer.AvailableQuantity > 0))
+        || product.items[0];
+    const seller = item?.sellers.find(s => s.sellerDefault) || item?.sellers[0];
+    const offer = seller?.commertialOffer;
+
+    // VTEX reports 0 as the price of unavailable SKUs
+    const parsed = offer && offer.Price > 0
+        ? parsePrice(offer.Price, url, { currency: getStoreLocale(new URL(url).hostname).currency })
+        : null;
+    const price = parsed || { raw: null, amount: null, currency: null };
+    const listPrice = offer ? Math.max(offer.ListPrice, offer.PriceWithoutDiscount) : 0;
+    const candidate = toCandidate('api', parsed);
+
+    return {
+        title: product.productName,
+        price: {
+            ...price,
+            candidates: candidate ? [candidate] : [],
+            listPrice: price.amount !== null && listPrice > price.amount ? listPrice : null,
+            installments: offer ? toInstallments(offer) : [],
+            conditionalPrices: offer ? toConditionalPrices(offer) : [],
+        },
+        image: item?.images?.[0]?.imageUrl || null,
+        sku: item?.itemId || null,
+        listing: toListing(seller),
+    };
+}
+
+/**
+ * VTEX stores: HTTP strategies read the public catalog search API, browser strategies
+ * the rendered page's structured data
+ */
+export const vtexAdapter: StoreAdapter = {
+    id: 'vtex',
+    domains: VTEX_DOMAINS,
+    readySelector: 'script[type="application/ld+json"]',
+
+    detect(url) {
+        return matchesDomain(url.hostname, VTEX_DOMAINS);
+    },
+
+    getDataUrl(url) {
+        const urlObj = new URL(url);
+        const skuId = getRequestedSku(url);
+        if (skuId) return `${urlObj.origin}/api/catalog_system/pub/products/search?fq=skuId:${skuId}`;
+
+        const slug = urlObj.pathname.match(/\/([^/]+)\/p\/?$/)?.[1];
+        return slug ? `${urlObj.origin}/api/catalog_system/pub/products/search/${slug}/p` : null;
+    },
+
+    async isProductPage(doc) {
+        const products = await readCatalogResponse(doc);
+        return products ? products.length > 0 : genericAdapter.isProductPage(doc);
+    },
+
+    async extract(doc, variant) {
+        const products = await readCatalogResponse(doc);
+        if (!products) return genericAdapter.extract(doc);
+        if (products.length === 0) {
+            // The catalog no longer has the slug or SKU: the product is gone, the markup didn't change
+            throw new TrackingError(TrackingErrorCode.NOT_FOUND_404, 'Product not in the VTEX catalog', undefined, doc.url);
+        }
+        return extractFromCatalogProduct(products[0]!, doc.url, variant);
+    },
+
+    getCleanUrl(url) {
+        // Keep the SKU the user picked, drop tracking params
+        const urlObj = new URL(url);
+        const skuId = urlObj.searchParams.get('skuId');
+        urlObj.search = skuId ? `?skuId=${skuId}` : '';
+        urlObj.hash = '';
+        return urlObj.toString();
+    },
+};
@@ -0,0 +1,97 @@
+import { StoreAdapter, Availability } from '../types.js';
+import { extractMetaTitle, extractMetaImage, readScriptObject } from './helpers.js';
+import { readStructuredData, pickOffer } from './structured-data.js';
+import { VariantOffer, extractVariant } from './variants.js';
+import { parsePrice, getUrlLocale, PriceLocale } from '../../utils/price-parser.js';
+
+const ZARA_HOST = /(^|\.)zara\.com$/;
+
+const SIZE_AVAILABILITY: Record<string, Availability> = {
+    in_stock: 'in_stock',
+    low_on_stock: 'in_stock',
+    out_of_stock: 'out_of_stock',
+    back_soon: 'out_of_stock',
+    coming_soon: 'preorder',
+};
+
+/** window.zara.viewPayload.product.detail.colors (prices in cents) */
+interface ZaraSize {
+    name: string;
+    sku?: number;
+    availability?: string;
+    price?: number;
+    oldPrice?: number;
+}
+
+interface ZaraColor {
+    id: string;
+    productId?: number;
+    name?: string;
+    price?: number;
+    oldPrice?: number;
+    sizes?: ZaraSize[];
+}
+
+function fromCents(value: number | undefined, locale: PriceLocale) {
+    if (!value) return null;
+    // The store's country (in the URL path) fixes the currency of the state's amounts
+    const price = parsePrice(value / 100, locale, { currency: locale.currency });
+    return price.amount !== null ? price : null;
+}
+
+function readOffers(colors: ZaraColor[], locale: PriceLocale): VariantOffer[] {
+    return colors.flatMap(color => (color.sizes || []).map(size => {
+        const oldPrice = size.oldPrice ?? color.oldPrice;
+        return {
+            sku: size.sku ? String(size.sku) : null,
+            color: color.productId ? String(color.productId) : color.id,
+            colorName: color.name || null,
+            size: size.name,
+            price: fromCents(size.price ?? color.price, locale),
+            listPrice: oldPrice ? oldPrice / 100 : null,
+            availability: SIZE_AVAILABILITY[size.availability || ''] || 'unknown',
+            stockHint: size.availability === 'low_on_stock' ? 'Pocas unidades' : null,
+        };
+    }));
+}
+
+export const zaraAdapter: StoreAdapter = {
+    id: 'zara',
+    domains: ['zara.com'],
+    readySelector: 'script[type="application/ld+json"]',
+
+    detect(url) {
+        return ZARA_HOST.test(url.hostname.toLowerCase());
+    },
+
+    /** ?v1= is the color the shopper picked */
+    getVariant(url) {
+        const color = new URL(url).searchParams.get('v1');
+        return color ? { color } : null;
+    },
+
+    async isProductPage(doc) {
+        return /-p\d+\.html/.test(doc.url) && readScriptObject(await doc.html(), 'viewPayload') !== null;
+    },
+
+    async extract(doc, variant) {
+        const html = await doc.html();
+        const product = readScriptObject(html, 'viewPayload')?.product;
+        const structured = pickOffer(readStructuredData(html, doc.url));
+        const offers = readOffers(product?.detail?.colors || [], getUrlLocale(doc.url));
+
+        return extractVariant(offers, variant ?? this.getVariant!(doc.url), {
+            title: product?.name || structured?.productName || await extractMetaTitle(doc) || 'Unknown',
+            image: await extractMetaImage(doc) || structured?.image || null,
+            structured,
+        });
+    },
+
+    getCleanUrl(url) {
+        const urlObj = new URL(url);
+        const color = urlObj.searchParams.get('v1');
+        urlObj.search = color ? `?v1=${color}` : '';
+        urlObj.hash = '';
+        return urlObj.toString();
+    },
+};
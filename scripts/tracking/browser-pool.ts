@@ -0,0 +1,339 @@
+/**
+ * Browser Page Pool
+ * Reuses a bounded set of tabs on one Chromium instance, restarts Chromium after
+ * N pages or when its memory grows past a threshold, and sizes itself to the
+ * memory actually available (so small instances can still track in parallel).
+ * BROWSER_LIGHT (plain Puppeteer) and BROWSER_HARD (stealth plugin) each get their own
+ * Chromium, but draw tabs from one budget and share one memory cap.
+ */
+
+import puppeteer, { Browser, BrowserContext, Page } from 'puppeteer';
+import puppeteerExtra from 'puppeteer-extra';
+import StealthPlugin from 'puppeteer-extra-plugin-stealth';
+import { getAvailableMemoryMb, getProcessTreeRssMb } from '../utils/memory.js';
+import { ProxyConfig } from './types.js';
+import { toProxyServer } from './proxy-pool.js';
+
+const DIRECT = 'direct';
+
+/** Which Chromium a tab is opened on */
+export type BrowserLauncher = 'plain' | 'stealth';
+
+type LaunchFn = () => Promise<Browser>;
+
+export interface BrowserPoolOptions {
+    /** Upper bound on concurrent tabs */
+    maxPages: number;
+    /** Restart Chromium after serving this many pages */
+    recycleAfterPages: number;
+    /** Restart Chromium when its process tree RSS crosses this (MB) */
+    maxRssMb: number;
+    /** Estimated memory cost of one extra tab (MB) */
+    pageMemoryMb: number;
+}
+
+export const DEFAULT_BROWSER_POOL_OPTIONS: BrowserPoolOptions = {
+    maxPages: parseInt(process.env.BROWSER_MAX_PAGES || '5', 10),
+    recycleAfterPages: parseInt(process.env.BROWSER_RECYCLE_AFTER || '50', 10),
+    maxRssMb: parseInt(process.env.BROWSER_MAX_RSS_MB || '350', 10),
+    pageMemoryMb: parseInt(process.env.BROWSER_PAGE_MEMORY_MB || '80', 10),
+};
+
+// Headroom kept free for Node and the OS
+const RESERVED_MEMORY_MB = 64;
+
+puppeteerExtra.use(StealthPlugin());
+
+export class BrowserPool {
+    private browsers: Map<BrowserLauncher, Browser> = new Map();
+    private launching: Map<BrowserLauncher, Promise<Browser>> = new Map();
+    private idle: Map<string, Page[]> = new Map(); // launcher/proxy id -> idle tabs
+    private contexts: Map<string, BrowserContext> = new Map(); // one context per launcher and proxy
+    private pageKeys: Map<Page, string> = new Map();
+    private inUse: Set<Page> = new Set();
+    private opening = 0;
+    private waiters: Array<() => void> = [];
+    private pagesServed = 0;
+    private recycleRequested = false;
+    private restarting: Promise<void> | null = null;
+    private options: BrowserPoolOptions;
+
+    constructor(
+        private name: string,
+        private launchers: Record<BrowserLauncher, LaunchFn>,
+        options: Partial<BrowserPoolOptions> = {}
+    ) {
+        this.options = { ...DEFAULT_BROWSER_POOL_OPTIONS, ...options };
+    }
+
+    /**
+     * Get a tab on the launcher's Chromium (routed through the proxy if given), waiting
+     * while the pool is full or Chromium is being recycled
+     */
+    async acquire(launcher: BrowserLauncher, proxy?: ProxyConfig): Promise<Page> {
+        const key = `${launcher}/${proxy?.id || DIRECT}`;
+
+        while (true) {
+            if (this.recycleRequested) {
+                if (this.inUse.size === 0 && this.opening === 0) {
+                    await this.restart();
+                } else {
+                    await this.waitForRelease(); // Drain before restarting
+                    continue;
+                }
+            }
+
+            const browser = await this.getBrowser(launcher);
+
+            const page = this.idle.get(key)?.pop();
+            if (page && !page.isClosed()) {
+                return this.checkout(page);
+            }
+
+            if (this.inUse.size + this.opening < this.getPageLimit()) {
+                // Reserve the slot before awaiting so concurrent callers can't overshoot
+                this.opening++;
+                try {
+                    await this.evictIdle();
+                    const context = await this.getContext(browser, key, proxy);
+                    const newPage = await context.newPage();
+                    if (proxy?.username) {
+                        await newPage.authenticate({ username: proxy.username, password: proxy.password || '' });
+                    }
+                    this.pageKeys.set(newPage, key);
+                    return this.checkout(newPage);
+                } finally {
+                    this.opening--;
+                }
+            }
+
+            await this.waitForRelease();
+        }
+    }
+
+    /**
+     * Return a tab to the pool (discard it if it may be in a bad state)
+     */
+    async release(page: Page, options: { discard?: boolean } = {}): Promise<void> {
+        this.inUse.delete(page);
+        const key = this.pageKeys.get(page);
+
+        try {
+            // No key: its Chromium crashed and was relaunched since
+            if (options.discard || page.isClosed() || !key) {
+                await this.closePage(page);
+            } else {
+                // Reset state left by the previous product
+                page.removeAllListeners('request');
+                await page.setRequestInterception(false).catch(() => {});
+                await page.goto('about:blank', { timeout: 5000 });
+                if (!this.idle.has(key)) this.idle.set(key, []);
+                this.idle.get(key)!.push(page);
+            }
+        } catch (e) {
+            await this.closePage(page);
+        }
+
+        this.checkMemory();
+        this.notify();
+    }
+
+    /**
+     * Tabs allowed right now: configured max, capped by available memory
+     */
+    getPageLimit(): number {
+        const availableMb = getAvailableMemoryMb() - RESERVED_MEMORY_MB;
+        const memoryLimit = this.inUse.size + Math.floor(availableMb / this.options.pageMemoryMb);
+        return Math.max(1, Math.min(this.options.maxPages, memoryLimit));
+    }
+
+    async close() {
+        this.idle.clear();
+        this.contexts.clear();
+        this.pageKeys.clear();
+        this.inUse.clear();
+        const browsers = [...this.browsers.values()];
+        this.browsers.clear();
+        this.launching.clear();
+        await Promise.all(browsers.map(browser => browser.close().catch(() => {})));
+    }
+
+    /**
+     * Close an idle tab to make room (idle tabs of another proxy still hold memory)
+     */
+    private async evictIdle() {
+        const idleCount = [...this.idle.values()].reduce((sum, pages) => sum + pages.length, 0);
+        if (this.inUse.size + this.opening + idleCount <= this.getPageLimit()) return;
+
+        for (const pages of this.idle.values()) {
+            const page = pages.shift();
+            if (page) {
+                await this.closePage(page);
+                return;
+            }
+        }
+    }
+
+    private async closePage(page: Page) {
+        this.pageKeys.delete(page);
+        await page.close().catch(() => {});
+    }
+
+    private async getContext(browser: Browser, key: string, proxy?: ProxyConfig): Promise<BrowserContext> {
+        if (!proxy) return browser.defaultBrowserContext();
+
+        let context = this.contexts.get(key);
+        if (!context) {
+            context = await browser.createBrowserContext({ proxyServer: toProxyServer(proxy) });
+            this.contexts.set(key, context);
+        }
+        return context;
+    }
+
+    private checkout(page: Page): Page {
+        this.inUse.add(page);
+        this.pagesServed++;
+        if (this.pagesServed >= this.options.recycleAfterPages) {
+            this.requestRecycle(`served ${this.pagesServed} pages`);
+        }
+        return page;
+    }
+
+    private checkMemory() {
+        // The cap covers every Chromium the pool runs
+        const rssMb = [...this.browsers.values()]
+            .map(browser => browser.process()?.pid)
+            .reduce((sum: number | null, pid) => {
+                const rss = pid ? getProcessTreeRssMb(pid) : null;
+                return rss === null ? sum : (sum ?? 0) + rss;
+            }, null);
+        if (rssMb !== null && rssMb > this.options.maxRssMb) {
+            this.requestRecycle(`RSS ${Math.round(rssMb)}MB > ${this.options.maxRssMb}MB`);
+        }
+    }
+
+    private requestRecycle(reason: string) {
+        if (this.recycleRequested) return;
+        console.log(`   ♻️  [${this.name}] Recycling browser (${reason})`);
+        this.recycleRequested = true;
+    }
+
+    private restart(): Promise<void> {
+        // Several drained callers may get here at once; only one restarts
+        if (!this.restarting) {
+            this.restarting = this.close().then(() => {
+                this.pagesServed = 0;
+                this.recycleRequested = false;
+                this.restarting = null;
+            });
+        }
+        return this.restarting;
+    }
+
+    private async getBrowser(launcher: BrowserLauncher): Promise<Browser> {
+        const current = this.browsers.get(launcher);
+        if (current && current.connected) return current;
+
+        // Crashed or never launched (Singleton with Mutex per launcher)
+        let launching = this.launching.get(launcher);
+        if (!launching) {
+            this.forget(launcher);
+            launching = this.launchers[launcher]();
+            this.launching.set(launcher, launching);
+        }
+        try {
+            const browser = await launching;
+            this.browsers.set(launcher, browser);
+            return browser;
+        } finally {
+            this.launching.delete(launcher); // Launched, or reset on failure
+        }
+    }
+
+    /**
+     * Drop the idle tabs and contexts of a launcher's Chromium (before relaunching it)
+     */
+    private forget(launcher: BrowserLauncher) {
+        const prefix = `${launcher}/`;
+        for (const key of [...this.idle.keys()].filter(k => k.startsWith(prefix))) this.idle.delete(key);
+        for (const key of [...this.contexts.keys()].filter(k => k.startsWith(prefix))) this.contexts.delete(key);
+        for (const [page, key] of this.pageKeys) {
+            if (key.startsWith(prefix)) this.pageKeys.delete(page);
+        }
+    }
+
+    private waitForRelease(): Promise<void> {
+        return new Promise(resolve => this.waiters.push(resolve));
+    }
+
+    private notify() {
+        const waiters = this.waiters;
+        this.waiters = [];
+        waiters.forEach(resolve => resolve());
+    }
+}
+
+/**
+ * Plain headless Chromium, no stealth plugin (BROWSER_LIGHT)
+ */
+async function launchPlainBrowser(): Promise<Browser> {
+    console.log('   🔨 Launching Light Browser (Pooled)...');
+    return await puppeteer.launch({
+        headless: true,
+        args: [
+            '--no-sandbox',
+            '--disable-setuid-sandbox',
+            '--disable-dev-shm-usage',
+            '--disable-gpu',
+            '--disable-extensions',
+            '--blink-settings=imagesEnabled=false',
+        ],
+    });
+}
+
+/**
+ * Headless Chromium with the stealth plugin (installs Chrome on first use if missing)
+ */
+async function launchStealthBrowser(): Promise<Browser> {
+    console.log('   🔨 Launching Headless Browser (Pooled)...');
+    const launchOptions = {
+        headless: true,
+        args: [
+            '--no-sandbox',
+            '--disable-setuid-sandbox',
+            '--disable-dev-shm-usage', // Critical for container environments (Render/Docker)
+            '--disable-blink-features=AutomationControlled',
+            '--disable-gpu' // Save memory
+        ],
+    };
+
+    try {
+        return await puppeteerExtra.launch(launchOptions);
+    } catch (error: any) {
+        if (error.message.includes('Could not find Chrome')) {
+            console.log('   ⚠️ Chrome not found. Installing via npx...');
+            const { execSync } = await import('child_process');
+            // Use a try-catch for the install command itself
+            try {
+                execSync('npx puppeteer browsers install chrome', { stdio: 'inherit' });
+            } catch (installError) {
+               console.error('   ❌ Chrome install failed:', installError);
+               throw installError;
+            }
+
+            return await puppeteerExtra.launch(launchOptions);
+        } else {
+            throw error;
+        }
+    }
+}
+
+let sharedPool: BrowserPool | null = null;
+
+/**
+ * The pool both browser strategies take tabs from (each on its own launcher)
+ */
+export function getSharedBrowserPool(): BrowserPool {
+    sharedPool ??= new BrowserPool('BROWSER', { plain: launchPlainBrowser, stealth: launchStealthBrowser });
+    return sharedPool;
+}
@@ -0,0 +1,96 @@
+/**
+ * Extraction Consensus
+ * Adapters report every price they find (structured data, meta tags, DOM). Candidates that
+ * agree are grouped, weighted by how reliable their source is and how cleanly they parsed,
+ * and the heaviest group wins. The score says how much to trust the winner: a lone DOM read
+ * or sources that disagree (cents read as thousands, an installment taken as the price)
+ * score low and are stored for review instead of as a price change.
+ */
+
+import { PriceCandidate, PriceSource } from './types.js';
+import { ParsedPrice, PriceConfidence } from '../utils/price-parser.js';
+
+/** Below this score a result is stored as "needs review" */
+export const REVIEW_THRESHOLD = 0.5;
+
+// Amounts within 1% count as the same price (rounding, cents shown or not)
+const AGREEMENT_TOLERANCE = 0.01;
+
+const SOURCE_WEIGHTS: Record<PriceSource, number> = {
+    'api': 1,
+    'json-ld': 0.9,
+    'microdata': 0.8,
+    'rdfa': 0.8,
+    'state': 0.8,
+    'meta': 0.7,
+    'dom': 0.6,
+};
+
+const CONFIDENCE_WEIGHTS: Record<PriceConfidence, number> = {
+    high: 1,
+    medium: 0.6,
+    low: 0.25,
+};
+
+export interface PriceConsensus {
+    winner: PriceCandidate | null;
+    /** 0-1: share of the evidence behind the winner times how reliable that evidence is */
+    score: number;
+    needsReview: boolean;
+}
+
+/**
+ * Build a candidate from a parsed price (null when nothing usable was parsed)
+ */
+export function toCandidate(source: PriceSource, price: ParsedPrice | null | undefined): PriceCandidate | null {
+    if (!price || price.amount === null || price.amount <= 0) return null;
+    return { source, amount: price.amount, currency: price.currency, confidence: price.confidence };
+}
+
+function weightOf(candidate: PriceCandidate): number {
+    return SOURCE_WEIGHTS[candidate.source] * CONFIDENCE_WEIGHTS[candidate.confidence];
+}
+
+/**
+ * Whether two reads are the same price (within the agreement tolerance)
+ */
+export function sameAmount(a: number, b: number): boolean {
+    return Math.abs(a - b) <= Math.max(a, b) * AGREEMENT_TOLERANCE;
+}
+
+function agrees(a: PriceCandidate, b: PriceCandidate): boolean {
+    if (a.currency && b.currency && a.currency !== b.currency) return false;
+    return sameAmount(a.amount, b.amount);
+}
+
+/**
+ * Pick the price most candidates agree on and score it
+ * Ties go to the group found first (adapters list candidates in their order of preference)
+ */
+export function resolvePriceConsensus(candidates: PriceCandidate[]): PriceConsensus {
+    const groups: PriceCandidate[][] = [];
+    for (const candidate of candidates.filter(c => c.amount > 0)) {
+        const group = groups.find(g => agrees(g[0]!, candidate));
+        if (group) {
+            group.push(candidate);
+        } else {
+            groups.push([candidate]);
+        }
+    }
+
+    if (groups.length === 0) {
+        return { winner: null, score: 0, needsReview: false };
+    }
+
+    const groupWeight = (group: PriceCandidate[]) => group.reduce((sum, c) => sum + weightOf(c), 0);
+    const best = groups.reduce((a, b) => groupWeight(b) > groupWeight(a) ? b : a);
+    const totalWeight = groups.reduce((sum, g) => sum + groupWeight(g), 0);
+
+    // Independent agreeing sources reinforce each other: 1 - (1 - w1)(1 - w2)...
+    const reliability = 1 - best.reduce((miss, c) => miss * (1 - weightOf(c)), 1);
+    const share = totalWeight > 0 ? groupWeight(best) / totalWeight : 0;
+    const score = Math.round(reliability * share * 100) / 100;
+
+    const winner = best.reduce((a, b) => weightOf(b) > weightOf(a) ? b : a);
+    return { winner, score, needsReview: score < REVIEW_THRESHOLD };
+}
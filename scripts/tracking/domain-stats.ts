@@ -0,0 +1,116 @@
+/**
+ * Per-domain strategy learning
+ * Remembers which strategy actually worked for each domain so the next
+ * product (and the next run) starts there instead of at the DOMAIN_CONFIG seed
+ */
+
+import { supabase } from '../utils/db.js';
+import { StrategyType } from './types.js';
+
+// Weight of the latest result in the moving success rate
+const RATE_WEIGHT = 0.3;
+// Minimum moving success rate for a strategy to be preferred
+const MIN_PREFERRED_RATE = 0.5;
+
+export interface DomainStrategyStats {
+    domain: string;
+    strategy: StrategyType;
+    successes: number;
+    failures: number;
+    success_rate: number;
+    last_success_at: string | null;
+    updated_at: string;
+}
+
+export class DomainStatsStore {
+    private stats: Map<string, DomainStrategyStats> = new Map();
+    private dirty: Set<string> = new Set();
+
+    /**
+     * Load persisted stats (missing table just means no learning yet)
+     */
+    async load(): Promise<void> {
+        const { data, error } = await supabase
+            .from('domain_strategy_stats')
+            .select('domain, strategy, successes, failures, success_rate, last_success_at, updated_at');
+
+        if (error) {
+            console.warn(`⚠️  Could not load domain strategy stats: ${error.message}`);
+            return;
+        }
+
+        for (const row of data || []) {
+            this.stats.set(this.key(row.domain, row.strategy), row as DomainStrategyStats);
+        }
+        console.log(`🧠 Loaded strategy stats for ${new Set((data || []).map(r => r.domain)).size} domains`);
+    }
+
+    /**
+     * Record the outcome of a strategy attempt for a domain
+     */
+    record(domain: string, strategy: StrategyType, success: boolean): void {
+        const key = this.key(domain, strategy);
+        const now = new Date().toISOString();
+        const current = this.stats.get(key) || {
+            domain,
+            strategy,
+            successes: 0,
+            failures: 0,
+            success_rate: success ? 1 : 0,
+            last_success_at: null,
+            updated_at: now,
+        };
+
+        current.successes += success ? 1 : 0;
+        current.failures += success ? 0 : 1;
+        current.success_rate = current.success_rate * (1 - RATE_WEIGHT) + (success ? 1 : 0) * RATE_WEIGHT;
+        current.updated_at = now;
+        if (success) current.last_success_at = now;
+
+        this.stats.set(key, current);
+        this.dirty.add(key);
+    }
+
+    /**
+     * Cheapest strategy (in chain order) that reliably works for the domain,
+     * else the one that succeeded most recently
+     */
+    getPreferredStrategy(domain: string, chain: StrategyType[]): StrategyType | null {
+        const domainStats = chain
+            .map(strategy => this.stats.get(this.key(domain, strategy)))
+            .filter((s): s is DomainStrategyStats => !!s);
+
+        const reliable = domainStats.find(s => s.success_rate >= MIN_PREFERRED_RATE);
+        if (reliable) return reliable.strategy;
+
+        const lastWorking = domainStats
+            .filter(s => s.last_success_at)
+            .sort((a, b) => b.last_success_at!.localeCompare(a.last_success_at!))[0];
+
+        return lastWorking?.strategy || null;
+    }
+
+    /**
+     * Persist stats changed during this run
+     */
+    async save(): Promise<void> {
+        if (this.dirty.size === 0) return;
+
+        const rows = [...this.dirty].map(key => this.stats.get(key)!);
+        const { error } = await supabase
+            .from('domain_strategy_stats')
+            .upsert(rows, { onConflict: 'domain,strategy' });
+
+        if (error) {
+            console.error('❌ Error saving domain strategy stats:', error);
+            return;
+        }
+
+        this.dirty.clear();
+        console.log(`🧠 Saved strategy stats for ${rows.length} domain/strategy pairs`);
+    }
+
+    private key(domain: string, strategy: string): string {
+        return `${domain}|${strategy}`;
+    }
+}
@@ -0,0 +1,63 @@
+import { TrackingErrorCode } from './types.js';
+
+/**
+ * Error thrown by strategies when the cause is already known
+ */
+export class TrackingError extends Error {
+    constructor(
+        public code: TrackingErrorCode,
+        message: string,
+        public httpStatus?: number,
+        public finalUrl?: string
+    ) {
+        super(message);
+        this.name = 'TrackingError';
+    }
+}
+
+/**
+ * Map an HTTP status to an error code
+ */
+export function codeForHttpStatus(status: number): TrackingErrorCode {
+    if (status === 401 || status === 403) return TrackingErrorCode.BOT_BLOCKED;
+    if (status === 404 || status === 410) return TrackingErrorCode.NOT_FOUND_404;
+    if (status === 429) return TrackingErrorCode.RATE_LIMITED;
+    return TrackingErrorCode.HTTP_ERROR;
+}
+
+/**
+ * Check if a URL is a bot-detection redirect
+ */
+export function isBotRedirect(url: string): boolean {
+    return url.includes('account-verification') || url.includes('/gz/');
+}
+
+/**
+ * Classify anything thrown during tracking
+ */
+export function classifyError(error: unknown): { code: TrackingErrorCode; message: string; httpStatus?: number; finalUrl?: string } {
+    if (error instanceof TrackingError) {
+        return { code: error.code, message: error.message, httpStatus: error.httpStatus, finalUrl: error.finalUrl };
+    }
+
+    const err = error as Error;
+    const message = err?.message || String(error);
+
+    if (err?.name === 'TimeoutError' || /timeout|timed out/i.test(message)) {
+        return { code: TrackingErrorCode.TIMEOUT, message };
+    }
+    if (/net::ERR_/.test(message)) {
+        return { code: TrackingErrorCode.NAVIGATION_ERROR, message };
+    }
+    if (err instanceof SyntaxError) {
+        return { code: TrackingErrorCode.PARSE_ERROR, message };
+    }
+    if (err instanceof TypeError && /fetch failed/i.test(message)) {
+        return { code: TrackingErrorCode.NETWORK_ERROR, message };
+    }
+    if (/Target closed|Session closed|Protocol error|Could not find Chrome|Failed to launch/i.test(message)) {
+        return { code: TrackingErrorCode.BROWSER_ERROR, message };
+    }
+
+    return { code: TrackingErrorCode.UNKNOWN, message };
+}
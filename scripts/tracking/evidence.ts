@@ -0,0 +1,206 @@
+/**
+ * Failure Evidence
+ * When a browser strategy fails on a loaded page (price not found, bot redirect, HTTP error)
+ * the page is gone by the time anyone looks. This keeps what it showed: final URL, HTML,
+ * a screenshot and the request log (HAR) under TRACKING_EVIDENCE_DIR/<run>/<host>/.
+ * Captures are sampled (TRACKING_EVIDENCE_SAMPLE) and the run is size-capped
+ * (TRACKING_EVIDENCE_MAX_MB) so the directory fits the workflow's artifact upload.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Page, HTTPRequest, HTTPResponse } from 'puppeteer';
+import { ProductToTrack, TrackingResult, TrackingErrorCode } from './types.js';
+
+const DEFAULT_SAMPLE_RATE = 0.25;
+const DEFAULT_MAX_MB = 50;
+// Per capture: huge pages are truncated, request logs stop growing
+const MAX_HTML_BYTES = 1024 * 1024;
+const MAX_REQUEST_ENTRIES = 300;
+
+// Failures where the page itself explains what went wrong
+const CAPTURED_CODES = [
+    TrackingErrorCode.PRICE_NOT_FOUND,
+    TrackingErrorCode.BOT_BLOCKED,
+    TrackingErrorCode.RATE_LIMITED,
+    TrackingErrorCode.HTTP_ERROR,
+    TrackingErrorCode.TIMEOUT,
+    TrackingErrorCode.NAVIGATION_ERROR,
+];
+
+interface RequestEntry {
+    startedAt: number;
+    method: string;
+    url: string;
+    resourceType: string;
+    status: number | null;
+    failure: string | null;
+    endedAt: number | null;
+}
+
+let bytesWritten = 0;
+let capWarned = false;
+let runDir: string | null = null;
+
+function getSampleRate(): number {
+    const rate = parseFloat(process.env.TRACKING_EVIDENCE_SAMPLE ?? String(DEFAULT_SAMPLE_RATE));
+    return isNaN(rate) ? DEFAULT_SAMPLE_RATE : Math.min(Math.max(rate, 0), 1);
+}
+
+function getMaxBytes(): number {
+    const mb = parseFloat(process.env.TRACKING_EVIDENCE_MAX_MB ?? String(DEFAULT_MAX_MB));
+    return (isNaN(mb) ? DEFAULT_MAX_MB : mb) * 1024 * 1024;
+}
+
+/**
+ * Evidence is on unless the sample rate is 0
+ */
+export function isEvidenceEnabled(): boolean {
+    return getSampleRate() > 0;
+}
+
+/**
+ * One directory per run (the workflow run id in CI, a timestamp locally)
+ */
+export function getEvidenceRunDir(): string {
+    if (!runDir) {
+        const runId = process.env.GITHUB_RUN_ID || new Date().toISOString().replace(/[:.]/g, '-');
+        runDir = path.resolve(process.env.TRACKING_EVIDENCE_DIR || 'tracking-evidence', runId);
+    }
+    return runDir;
+}
+
+/**
+ * Records the page's requests from navigation on (listeners are removed by stop(),
+ * pooled pages are reused)
+ */
+export class RequestLog {
+    private entries: Map<HTTPRequest, RequestEntry> = new Map();
+
+    private onRequest = (req: HTTPRequest) => {
+        if (this.entries.size >= MAX_REQUEST_ENTRIES) return;
+        this.entries.set(req, {
+            startedAt: Date.now(),
+            method: req.method(),
+            url: req.url(),
+            resourceType: req.resourceType(),
+            status: null,
+            failure: null,
+            endedAt: null,
+        });
+    };
+
+    private onResponse = (res: HTTPResponse) => {
+        const entry = this.entries.get(res.request());
+        if (!entry) return;
+        entry.status = res.status();
+        entry.endedAt = Date.now();
+    };
+
+    private onFailed = (req: HTTPRequest) => {
+        const entry = this.entries.get(req);
+        if (!entry) return;
+        entry.failure = req.failure()?.errorText || 'failed';
+        entry.endedAt = Date.now();
+    };
+
+    constructor(private page: Page) {
+        page.on('request', this.onRequest);
+        page.on('response', this.onResponse);
+        page.on('requestfailed', this.onFailed);
+    }
+
+    stop(): void {
+        this.page.off('request', this.onRequest);
+        this.page.off('response', this.onResponse);
+        this.page.off('requestfailed', this.onFailed);
+    }
+
+    /**
+     * Minimal HAR 1.2 (no headers or bodies) - enough to see what loaded, failed or was blocked
+     */
+    toHar(): object {
+        return {
+            log: {
+                version: '1.2',
+                creator: { name: 'delay-tracking', version: '1.0' },
+                entries: [...this.entries.values()].map(entry => ({
+                    startedDateTime: new Date(entry.startedAt).toISOString(),
+                    time: entry.endedAt ? entry.endedAt - entry.startedAt : -1,
+                    request: {
+                        method: entry.method, url: entry.url, httpVersion: '',
+                        cookies: [], headers: [], queryString: [], headersSize: -1, bodySize: -1,
+                    },
+                    response: {
+                        status: entry.status ?? 0, statusText: entry.failure || '', httpVersion: '',
+                        cookies: [], headers: [], content: { size: -1, mimeType: '' },
+                        redirectURL: '', headersSize: -1, bodySize: -1,
+                    },
+                    cache: {},
+                    timings: { send: -1, wait: -1, receive: -1 },
+                    _resourceType: entry.resourceType,
+                    _failure: entry.failure,
+                })),
+            },
+        };
+    }
+}
+
+/**
+ * Save the page's evidence for a failed result (sampled, skipped once the run cap is reached)
+ */
+export async function captureFailureEvidence(
+    page: Page,
+    product: ProductToTrack,
+    result: TrackingResult,
+    requestLog: RequestLog | null
+): Promise<void> {
+    if (result.success || !result.errorCode || !CAPTURED_CODES.includes(result.errorCode)) return;
+    if (Math.random() >= getSampleRate()) return;
+
+    const maxBytes = getMaxBytes();
+    if (bytesWritten >= maxBytes) {
+        if (!capWarned) {
+            console.warn(`   ⚠️  Evidence cap reached (${(maxBytes / 1024 / 1024).toFixed(0)} MB), not capturing more this run`);
+            capWarned = true;
+        }
+        return;
+    }
+
+    try {
+        let html = await page.content();
+        if (Buffer.byteLength(html) > MAX_HTML_BYTES) {
+            html = Buffer.from(html).subarray(0, MAX_HTML_BYTES).toString() + '\n<!-- truncated -->';
+        }
+        const screenshot = await page.screenshot({ type: 'jpeg', quality: 50 }).catch(() => null);
+        const har = requestLog ? JSON.stringify(requestLog.toHar()) : null;
+
+        const meta = JSON.stringify({
+            productId: product.id,
+            url: product.original_url,
+            finalUrl: result.finalUrl ?? page.url(),
+            httpStatus: result.httpStatus ?? null,
+            errorCode: result.errorCode,
+            error: result.error,
+            strategy: result.strategyUsed,
+            proxy: result.proxyUsed ?? null,
+            capturedAt: new Date().toISOString(),
+        }, null, 2);
+
+        const size = Buffer.byteLength(html) + (screenshot?.length ?? 0) + (har ? Buffer.byteLength(har) : 0) + meta.length;
+        if (bytesWritten + size > maxBytes) return;
+
+        const host = new URL(product.original_url).hostname.replace('www.', '');
+        const dir = path.join(getEvidenceRunDir(), host, `${Date.now()}-${product.id}-${result.errorCode}`);
+        fs.mkdirSync(dir, { recursive: true });
+        fs.writeFileSync(path.join(dir, 'meta.json'), meta);
+        fs.writeFileSync(path.join(dir, 'page.html'), html);
+        if (screenshot) fs.writeFileSync(path.join(dir, 'screenshot.jpg'), screenshot);
+        if (har) fs.writeFileSync(path.join(dir, 'requests.har'), har);
+
+        bytesWritten += size;
+        console.log(`   🧾 Evidence saved: ${path.relative(process.cwd(), dir)}`);
+    } catch (e: any) {
+        console.warn(`   ⚠️  Could not capture evidence: ${e.message}`);
+    }
+}
@@ -0,0 +1,134 @@
+/**
+ * Record/Replay Fixtures
+ * TRACKING_FIXTURES=record saves what the strategies saw (the raw response per URL HTTP_FAST
+ * fetched, the rendered page per product URL for the browser strategies); TRACKING_FIXTURES=replay
+ * serves them back from disk so tracking runs fully offline.
+ * Files live in TRACKING_FIXTURES_DIR (default fixtures/tracking) as <host>/<kind>-<hash>.json
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { ProductToTrack, TrackingResult, TrackingErrorCode } from './types.js';
+import { getAdapterForUrl, HtmlDocument, ProbedDocument } from './adapters/index.js';
+import { TrackingError, codeForHttpStatus, isBotRedirect } from './errors.js';
+import { resultFromExtraction } from './results.js';
+import { parseVariantKey } from '../utils/variant-key.js';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+/** 'http' = response body as fetched, 'page' = DOM after the browser rendered it */
+export type FixtureKind = 'http' | 'page';
+
+export interface Fixture {
+    kind: FixtureKind;
+    url: string;
+    finalUrl: string;
+    status: number;
+    statusText?: string;
+    /** Product the fixture was recorded for (lets replay runs rebuild the product list) */
+    product?: ProductToTrack;
+    html: string;
+    recordedAt: string;
+}
+
+export function getFixtureMode(): FixtureMode {
+    const mode = (process.env.TRACKING_FIXTURES || 'off').toLowerCase();
+    if (mode !== 'record' && mode !== 'replay' && mode !== 'off') {
+        throw new Error(`Invalid TRACKING_FIXTURES: ${mode} (expected record, replay or off)`);
+    }
+    return mode;
+}
+
+function getFixturesDir(): string {
+    return path.resolve(process.env.TRACKING_FIXTURES_DIR || 'fixtures/tracking');
+}
+
+export function getFixturePath(kind: FixtureKind, url: string): string {
+    const host = new URL(url).hostname.replace('www.', '');
+    const hash = createHash('sha1').update(url).digest('hex').substring(0, 16);
+    return path.join(getFixturesDir(), host, `${kind}-${hash}.json`);
+}
+
+export function saveFixture(fixture: Omit<Fixture, 'recordedAt'>): void {
+    const filePath = getFixturePath(fixture.kind, fixture.url);
+    // Re-recording without a product (e.g. from the CSV importer) keeps the one already known
+    const product = fixture.product ?? loadFixture(fixture.kind, fixture.url)?.product;
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify({ ...fixture, product, recordedAt: new Date().toISOString() }, null, 2));
+    console.log(`   📼 Recorded ${fixture.kind} fixture: ${path.relative(process.cwd(), filePath)}`);
+}
+
+export function loadFixture(kind: FixtureKind, url: string): Fixture | null {
+    const filePath = getFixturePath(kind, url);
+    if (!fs.existsSync(filePath)) return null;
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Fixture;
+}
+
+/**
+ * Load a fixture or fail the attempt (replay never falls through to the network)
+ */
+export function requireFixture(kind: FixtureKind, url: string): Fixture {
+    const fixture = loadFixture(kind, url);
+    if (!fixture) {
+        throw new TrackingError(TrackingErrorCode.FIXTURE_MISSING, `No ${kind} fixture recorded for ${url}`);
+    }
+    return fixture;
+}
+
+/**
+ * Products that have at least one recorded fixture
+ */
+export function listFixtureProducts(): ProductToTrack[] {
+    const dir = getFixturesDir();
+    if (!fs.existsSync(dir)) return [];
+
+    const products: Map<string, ProductToTrack> = new Map();
+    for (const host of fs.readdirSync(dir)) {
+        const hostDir = path.join(dir, host);
+        if (!fs.statSync(hostDir).isDirectory()) continue;
+
+        for (const file of fs.readdirSync(hostDir).filter(f => f.endsWith('.json'))) {
+            const fixture = JSON.parse(fs.readFileSync(path.join(hostDir, file), 'utf-8')) as Fixture;
+            if (fixture.product) products.set(fixture.product.id, fixture.product);
+        }
+    }
+    return [...products.values()];
+}
+
+/**
+ * Replay a browser strategy from its recorded page snapshot (no Chromium needed)
+ */
+export async function trackFromPageFixture(product: ProductToTrack, strategyName: string): Promise<TrackingResult> {
+    const fixture = loadFixture('page', product.original_url);
+    if (!fixture) {
+        return {
+            productId: product.id,
+            success: false,
+            error: `No page fixture recorded for ${product.original_url}`,
+            errorCode: TrackingErrorCode.FIXTURE_MISSING,
+            strategyUsed: strategyName
+        };
+    }
+
+    const { finalUrl, status: httpStatus } = fixture;
+    const base = { productId: product.id, httpStatus, finalUrl, strategyUsed: strategyName };
+
+    if (isBotRedirect(finalUrl)) {
+        return { ...base, success: false, error: 'Bot detection (redirect)', errorCode: TrackingErrorCode.BOT_BLOCKED };
+    }
+
+    if (httpStatus >= 400) {
+        return { ...base, success: false, error: `HTTP ${httpStatus}`, errorCode: codeForHttpStatus(httpStatus) };
+    }
+
+    const adapter = getAdapterForUrl(product.original_url);
+    const doc = new HtmlDocument(fixture.html, finalUrl);
+    if (await adapter.isBlocked?.(doc)) {
+        return { ...base, success: false, error: 'Bot detection (captcha)', errorCode: TrackingErrorCode.BOT_BLOCKED };
+    }
+    const probe = new ProbedDocument(doc);
+    const extracted = await adapter.extract(probe, parseVariantKey(product.variant_key));
+    return resultFromExtraction(product, strategyName, extracted, { httpStatus, finalUrl, adapterId: adapter.id, selectors: probe.report() });
+}
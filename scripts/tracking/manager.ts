@@ -1,55 +1,342 @@
-import { TrackingStrategy, DomainConfig, ProductToTrack, TrackingResult } from './types.js';
+import { TrackingStrategy, DomainConfig, ProductToTrack, TrackingResult, StrategyType, RateLimit, TrackingErrorCode, ProxyConfig } from './types.js';
 import { HttpFastStrategy } from './strategies/http-fast.js';
+import { BrowserLightStrategy } from './strategies/browser-light.js';
 import { BrowserHardStrategy } from './strategies/browser-hard.js';
+import { FallbackApiStrategy } from './strategies/fallback-api.js';
+import { DomainStatsStore } from './domain-stats.js';
+import { RetryPolicy, DEFAULT_RETRY_POLICY, CircuitBreaker, withRetry } from './retry.js';
+import { ProxyPool, loadProxiesFromEnv } from './proxy-pool.js';
+import { StoreDefinition } from './store-definitions.js';
+import { registerStoreDefinitions } from './adapters/index.js';
+import { AdapterHealthMonitor, DriftAlert, reportDriftAlerts } from './adapter-health.js';
+import { isIndependentRead } from './price-guard.js';
 
+/**
+ * Seed strategies and politeness limits per domain (learned stats take precedence once available)
+ */
 const DOMAIN_CONFIG: Record<string, DomainConfig> = {
-    'mercadolibre.com': { strategy: 'BROWSER_HARD', difficulty: 'hard' },
-    'mercadolibre.com.co': { strategy: 'BROWSER_HARD', difficulty: 'hard' },
-    'mercadolibre.com.mx': { strategy: 'BROWSER_HARD', difficulty: 'hard' },
-    'mercadolibre.com.br': { strategy: 'BROWSER_HARD', difficulty: 'hard' },
-    'mercadolibre.cl': { strategy: 'BROWSER_HARD', difficulty: 'hard' },
-    'amazon.com': { strategy: 'BROWSER_HARD', difficulty: 'hard' }, // Amazon usually needs browser
+    'mercadolibre.com': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 3000 } },
+    'mercadolibre.com.co': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 3000 } },
+    'mercadolibre.com.mx': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 3000 } },
+    'mercadolibre.com.br': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 3000 } },
+    'mercadolibre.com.ar': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 3000 } },
+    'mercadolibre.com.pe': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 3000 } },
+    'mercadolibre.cl': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 3000 } },
+    'amazon.com': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 5000 } }, // Amazon usually needs browser
+    'amazon.com.mx': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 5000 } },
+    'amazon.com.br': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 5000 } },
+    'amazon.ca': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 5000 } },
+    'amazon.co.uk': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 5000 } },
+    'amazon.de': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 5000 } },
+    'amazon.es': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 5000 } },
+    'amazon.fr': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 5000 } },
+    'amazon.it': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 5000 } },
+    'exito.com': { strategy: 'HTTP_FAST', difficulty: 'easy' }, // VTEX catalog API (adapters/vtex.ts)
+    // Falabella: server-rendered prices, but its bot manager turns away plain HTTP clients
+    'falabella.com.co': { strategy: 'BROWSER_LIGHT', difficulty: 'medium', rateLimit: { maxConcurrent: 1, minIntervalMs: 2000 } },
+    'falabella.cl': { strategy: 'BROWSER_LIGHT', difficulty: 'medium', rateLimit: { maxConcurrent: 1, minIntervalMs: 2000 } },
+    'falabella.com.pe': { strategy: 'BROWSER_LIGHT', difficulty: 'medium', rateLimit: { maxConcurrent: 1, minIntervalMs: 2000 } },
+    // Fashion stores: prices and stock per size/color live in client-side state (adapters/zara.ts, hm.ts, nike.ts, adidas.ts)
+    'zara.com': { strategy: 'BROWSER_LIGHT', difficulty: 'medium', rateLimit: { maxConcurrent: 1, minIntervalMs: 3000 } },
+    'hm.com': { strategy: 'BROWSER_LIGHT', difficulty: 'medium', rateLimit: { maxConcurrent: 1, minIntervalMs: 3000 } },
+    'nike.com': { strategy: 'BROWSER_LIGHT', difficulty: 'medium', rateLimit: { maxConcurrent: 1, minIntervalMs: 3000 } },
+    'adidas.com': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 3000 } },
+    'adidas.co': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 3000 } },
+    'adidas.com.co': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 3000 } },
+    'adidas.mx': { strategy: 'BROWSER_HARD', difficulty: 'hard', rateLimit: { maxConcurrent: 1, minIntervalMs: 3000 } },
 };
 
+/**
+ * Seed config for stores added as definition files (entries above win)
+ */
+function addDefinitionDomains(definitions: StoreDefinition[]): void {
+    for (const definition of definitions) {
+        for (const domain of definition.domains) {
+            DOMAIN_CONFIG[domain] ??= {
+                strategy: definition.strategy || 'HTTP_FAST',
+                difficulty: definition.difficulty || 'easy',
+                rateLimit: definition.rateLimit,
+            };
+        }
+    }
+}
+
+/**
+ * Limits for hosts without an explicit rateLimit
+ */
+const DEFAULT_RATE_LIMIT: RateLimit = { maxConcurrent: 2, minIntervalMs: 1000 };
+
+/**
+ * Find the config entry for a domain: the key itself or one of its subdomains (most specific match wins)
+ */
+export function findDomainConfig(domain: string): { key: string; config: DomainConfig } | null {
+    const host = domain.toLowerCase();
+    let best: { key: string; config: DomainConfig } | null = null;
+    for (const [key, config] of Object.entries(DOMAIN_CONFIG)) {
+        const matches = host === key || host.endsWith(`.${key}`);
+        if (matches && (!best || key.length > best.key.length)) {
+            best = { key, config };
+        }
+    }
+    return best;
+}
+
+/**
+ * Politeness limits for a domain
+ */
+export function getRateLimit(domain: string): RateLimit {
+    return findDomainConfig(domain)?.config.rateLimit || DEFAULT_RATE_LIMIT;
+}
+
+/**
+ * Escalation order, cheapest first
+ */
+const STRATEGY_CHAIN: StrategyType[] = ['HTTP_FAST', 'BROWSER_LIGHT', 'BROWSER_HARD', 'FALLBACK_API'];
+
+/**
+ * Failures that a heavier strategy cannot fix (the product itself is gone)
+ */
+const FINAL_ERROR_CODES = [TrackingErrorCode.NOT_FOUND_404, TrackingErrorCode.PRODUCT_UNAVAILABLE];
+
+function shouldEscalate(result: TrackingResult): boolean {
+    return !result.errorCode || !FINAL_ERROR_CODES.includes(result.errorCode);
+}
+
+function getDomain(url: string): string | null {
+    try {
+        return new URL(url).hostname.replace('www.', '');
+    } catch (e) {
+        return null;
+    }
+}
+
 export class StrategyManager {
     private strategies: Map<string, TrackingStrategy> = new Map();
+    private domainStats = new DomainStatsStore();
+    private adapterHealth = new AdapterHealthMonitor();
+    private retryPolicy: RetryPolicy;
+    private circuitBreaker: CircuitBreaker;
+    private proxyPool: ProxyPool;
+    private offline: boolean;
+
+    constructor(options: {
+        retryPolicy?: Partial<RetryPolicy>;
+        circuitBreakerThreshold?: number;
+        proxies?: ProxyConfig[];
+        /** Fixture replay: no proxies, no live API strategy, learned stats not loaded or saved */
+        offline?: boolean;
+        /** Replace built-in strategies by type, or leave a type out with null (e.g. stand-ins in tests) */
+        strategies?: Partial<Record<StrategyType, TrackingStrategy | null>>;
+    } = {}) {
+        this.offline = options.offline ?? false;
+        this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
+        this.circuitBreaker = new CircuitBreaker(options.circuitBreakerThreshold);
+        this.proxyPool = new ProxyPool(this.offline ? [] : options.proxies ?? loadProxiesFromEnv());
 
-    constructor() {
         this.strategies.set('HTTP_FAST', new HttpFastStrategy());
+        this.strategies.set('BROWSER_LIGHT', new BrowserLightStrategy());
         this.strategies.set('BROWSER_HARD', new BrowserHardStrategy());
+        if (!this.offline) {
+            this.strategies.set('FALLBACK_API', new FallbackApiStrategy());
+        }
+        for (const [type, strategy] of Object.entries(options.strategies ?? {})) {
+            if (strategy) {
+                this.strategies.set(type, strategy);
+            } else {
+                this.strategies.delete(type);
+            }
+        }
     }
 
     /**
-     * Determine best strategy for a product
+     * Load store definitions (stores/*.json), learned per-domain stats and paused domains
      */
-    getStrategyForProduct(product: ProductToTrack): TrackingStrategy {
-        try {
-            const url = new URL(product.original_url);
-            const hostname = url.hostname.replace('www.', '');
-
-            // Check exact match or partial match
-            for (const [domain, config] of Object.entries(DOMAIN_CONFIG)) {
-                if (hostname.includes(domain)) {
-                    const strategy = this.strategies.get(config.strategy);
-                    if (strategy) return strategy;
-                }
+    async init() {
+        addDefinitionDomains(registerStoreDefinitions());
+        if (this.offline) return;
+        await this.domainStats.load();
+        await this.adapterHealth.loadPauses();
+    }
+
+    /**
+     * Seed strategy for a domain from DOMAIN_CONFIG
+     */
+    private getSeedStrategy(domain: string): StrategyType {
+        // Default to fast HTTP
+        return findDomainConfig(domain)?.config.strategy || 'HTTP_FAST';
+    }
+
+    /**
+     * Proxy for a domain's next attempt (undefined = direct)
+     */
+    private getProxy(domain: string | null): ProxyConfig | undefined {
+        if (!domain || this.proxyPool.size === 0) return undefined;
+        if (findDomainConfig(domain)?.config.useProxy === false) return undefined;
+        return this.proxyPool.assign(domain);
+    }
+
+    /**
+     * Single strategy attempt through the domain's proxy, rotating it on bot blocks
+     */
+    private async attempt(strategy: TrackingStrategy, product: ProductToTrack, domain: string | null): Promise<TrackingResult> {
+        const proxy = this.getProxy(domain);
+        const result = await strategy.track(product, { proxy });
+
+        if (proxy && domain) {
+            result.proxyUsed = proxy.id;
+            this.proxyPool.report(proxy, result);
+            if (result.errorCode === TrackingErrorCode.BOT_BLOCKED) {
+                this.proxyPool.rotate(domain);
             }
+        }
+
+        return result;
+    }
+
+    /**
+     * Strategy types, in chain order, that are enabled and can serve the product's store
+     */
+    private getAvailableTypes(product: ProductToTrack): StrategyType[] {
+        let url: URL | null = null;
+        try {
+            url = new URL(product.original_url);
         } catch (e) {}
 
-        // Default to fast HTTP
-        return this.strategies.get('HTTP_FAST')!;
+        return STRATEGY_CHAIN.filter(type => {
+            const strategy = this.strategies.get(type);
+            return strategy && (!url || !strategy.supports || strategy.supports(url));
+        });
+    }
+
+    /**
+     * Ordered strategies to try for a product: starts at the learned (or seeded)
+     * strategy for its domain and escalates through the rest of the chain
+     */
+    getStrategyChain(product: ProductToTrack): TrackingStrategy[] {
+        const available = this.getAvailableTypes(product);
+        const domain = getDomain(product.original_url);
+
+        let start: StrategyType = 'HTTP_FAST';
+        if (domain) {
+            start = this.domainStats.getPreferredStrategy(domain, available) || this.getSeedStrategy(domain);
+        }
+
+        const startIndex = Math.max(available.indexOf(start), 0);
+        return available.slice(startIndex).map(type => this.strategies.get(type)!);
     }
 
     /**
-     * execute tracking for a product
+     * Determine best strategy for a product
+     */
+    getStrategyForProduct(product: ProductToTrack): TrackingStrategy {
+        return this.getStrategyChain(product)[0];
+    }
+
+    /**
+     * execute tracking for a product, retrying transient failures and
+     * escalating until a strategy succeeds
      */
     async trackProduct(product: ProductToTrack): Promise<TrackingResult> {
-        const strategy = this.getStrategyForProduct(product);
-        return await strategy.track(product);
+        const domain = getDomain(product.original_url);
+
+        const pauseReason = domain && this.adapterHealth.getPauseReason(domain);
+        if (pauseReason) {
+            return {
+                productId: product.id,
+                success: false,
+                deferred: true,
+                error: `${domain} paused: ${pauseReason}`,
+                errorCode: TrackingErrorCode.DOMAIN_PAUSED,
+                strategyUsed: 'NONE'
+            };
+        }
+
+        if (domain && this.circuitBreaker.isOpen(domain)) {
+            return {
+                productId: product.id,
+                success: false,
+                deferred: true,
+                error: `Circuit open for ${domain}`,
+                errorCode: TrackingErrorCode.CIRCUIT_OPEN,
+                strategyUsed: 'NONE'
+            };
+        }
+
+        const chain = this.getStrategyChain(product);
+        let result: TrackingResult | null = null;
+        // Last attempt that ran a store adapter (FALLBACK_API doesn't), for adapter health
+        let adapterResult: TrackingResult | null = null;
+
+        for (const strategy of chain) {
+            const attempt = await withRetry(() => this.attempt(strategy, product, domain), this.retryPolicy);
+            // A strategy that can't serve the URL says nothing about the product or the domain:
+            // keep the earlier failure as the cause
+            const unsupported = attempt.errorCode === TrackingErrorCode.UNSUPPORTED_STORE;
+            if (!unsupported || !result) result = attempt;
+            if (domain && !unsupported) {
+                this.domainStats.record(domain, strategy.name as StrategyType, attempt.success);
+            }
+            if (attempt.adapterId) adapterResult = attempt;
+
+            if (result.success || !shouldEscalate(result)) break;
+
+            const next = chain[chain.indexOf(strategy) + 1];
+            if (next) {
+                console.log(`   ⤴️  Escalating ${strategy.name} → ${next.name}`);
+            }
+        }
+
+        if (domain && adapterResult) {
+            this.adapterHealth.record(domain, adapterResult);
+        }
+        // Once per product: the threshold counts blocked products, not escalated attempts
+        if (domain && result!.errorCode !== TrackingErrorCode.UNSUPPORTED_STORE) {
+            this.circuitBreaker.record(domain, result!);
+        }
+
+        return result!;
     }
 
     /**
-     * Cleanup all strategies
+     * Re-fetch a product to confirm a suspicious price
+     * Tries the other strategies, those after the one that produced it first, until one reads the
+     * price independently (see isIndependentRead). Without one, the last successful re-read is
+     * returned, which doesn't confirm anything
+     */
+    async confirmPrice(product: ProductToTrack, suspicious: TrackingResult): Promise<TrackingResult> {
+        const domain = getDomain(product.original_url);
+        const available = this.getAvailableTypes(product);
+        const used = available.indexOf(suspicious.strategyUsed as StrategyType);
+        const order = used === -1 ? available : [...available.slice(used + 1), ...available.slice(0, used)];
+
+        let result: TrackingResult | null = null;
+        for (const type of order) {
+            const attempt = await withRetry(() => this.attempt(this.strategies.get(type)!, product, domain), this.retryPolicy);
+            if (isIndependentRead(suspicious, attempt)) return attempt;
+            if (attempt.success || !result?.success) result = attempt;
+        }
+        return result ?? {
+            productId: product.id,
+            success: false,
+            error: 'No other strategy can re-fetch this store',
+            errorCode: TrackingErrorCode.UNSUPPORTED_STORE,
+            strategyUsed: 'NONE'
+        };
+    }
+
+    /**
+     * Compare this run's per-adapter extraction rates with earlier runs and report drift
+     * (not in offline mode: replayed fixtures say nothing about the live sites)
+     */
+    async checkAdapterHealth(): Promise<DriftAlert[]> {
+        if (this.offline) return [];
+        const alerts = await this.adapterHealth.check();
+        await reportDriftAlerts(alerts);
+        return alerts;
+    }
+
+    /**
+     * Cleanup all strategies and persist learned stats
      */
     async closeAll() {
         for (const strategy of this.strategies.values()) {
@@ -57,5 +344,9 @@ export class StrategyManager {
                 await strategy.close();
             }
         }
+        if (!this.offline) {
+            await this.domainStats.save();
+        }
+        this.proxyPool.logSummary();
     }
 }
@@ -0,0 +1,176 @@
+/**
+ * Price Sanity Guard
+ * Catches outlier prices before they become snapshots: a separator glitch that turns
+ * 1.299.000 COP into 1.299 would otherwise be recorded (and notified) as a 99.9% drop.
+ * A price is suspicious when it falls outside its category's plausible range or jumps too
+ * far from the product's recent confirmed prices. Suspicious prices only count once an
+ * independent re-fetch confirms them; otherwise they go to the price_quarantine table.
+ */
+
+import { supabase } from '../utils/db.js';
+import { TrackingResult } from './types.js';
+import { sameAmount } from './consensus.js';
+
+/** Confirmed snapshots the history check looks at */
+export const PRICE_HISTORY_SIZE = 10;
+
+// Moves beyond these ratios against the recent median need confirmation
+const MAX_DROP_RATIO = 0.3;
+const MAX_RISE_RATIO = 3;
+
+export interface PriceBounds {
+    min: number;
+    max: number;
+}
+
+/**
+ * Plausible prices per product category and currency (products.category)
+ */
+const CATEGORY_PRICE_BOUNDS: Record<string, Record<string, PriceBounds>> = {
+    electronics: {
+        COP: { min: 20_000, max: 40_000_000 },
+        MXN: { min: 100, max: 200_000 },
+        USD: { min: 5, max: 10_000 },
+    },
+    phones: {
+        COP: { min: 100_000, max: 15_000_000 },
+        MXN: { min: 500, max: 80_000 },
+        USD: { min: 30, max: 3_000 },
+    },
+    computers: {
+        COP: { min: 30_000, max: 30_000_000 },
+        MXN: { min: 150, max: 150_000 },
+        USD: { min: 10, max: 8_000 },
+    },
+    home_appliances: {
+        COP: { min: 30_000, max: 30_000_000 },
+        MXN: { min: 150, max: 150_000 },
+        USD: { min: 10, max: 8_000 },
+    },
+    books: {
+        COP: { min: 5_000, max: 1_000_000 },
+        MXN: { min: 20, max: 5_000 },
+        USD: { min: 1, max: 300 },
+    },
+};
+
+/**
+ * Outer limits for any product when the category is unknown or has no bounds
+ */
+const CURRENCY_PRICE_BOUNDS: Record<string, PriceBounds> = {
+    COP: { min: 1_000, max: 200_000_000 },
+    CLP: { min: 200, max: 50_000_000 },
+    ARS: { min: 100, max: 100_000_000 },
+    MXN: { min: 5, max: 1_000_000 },
+    BRL: { min: 1, max: 300_000 },
+    PEN: { min: 1, max: 200_000 },
+    USD: { min: 0.5, max: 50_000 },
+};
+
+export interface QuarantineInsert {
+    product_id: string;
+    price: number;
+    currency: string;
+    previous_price: number | null;
+    reason: string;
+    strategy_used: string;
+    confidence: number | null;
+    price_candidates: TrackingResult['candidates'];
+    refetch_price: number | null;
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle]! : (sorted[middle - 1]! + sorted[middle]!) / 2;
+}
+
+/**
+ * Ratio that is a power of ten (x100, x1000) - the signature of a separator mistake
+ */
+function separatorFactor(ratio: number): number | null {
+    for (const factor of [100, 1000]) {
+        if (Math.abs(ratio * factor - 1) < 0.02 || Math.abs(ratio / factor - 1) < 0.02) return factor;
+    }
+    return null;
+}
+
+/**
+ * Why a price looks wrong, or null when it is plausible
+ * @param history - Recent confirmed prices, newest first
+ * @param category - Product category (products.category), if known
+ */
+export function checkPrice(
+    price: number,
+    currency: string,
+    history: number[],
+    category?: string | null
+): string | null {
+    const categoryBounds = category ? CATEGORY_PRICE_BOUNDS[category]?.[currency] : undefined;
+    const bounds = categoryBounds || CURRENCY_PRICE_BOUNDS[currency];
+    if (bounds && (price < bounds.min || price > bounds.max)) {
+        return `${price} ${currency} outside ${categoryBounds ? category : currency} range ${bounds.min}-${bounds.max}`;
+    }
+
+    if (history.length === 0) return null;
+
+    const reference = median(history);
+    const ratio = price / reference;
+    if (ratio < MAX_DROP_RATIO || ratio > MAX_RISE_RATIO) {
+        const factor = separatorFactor(ratio);
+        const change = `${((ratio - 1) * 100).toFixed(1)}% vs recent median ${reference}`;
+        return factor ? `${change}, looks like a separator error (x${factor})` : change;
+    }
+
+    return null;
+}
+
+/**
+ * Whether a re-fetch reads the price independently of the first read: through another adapter
+ * (or an API), or backed by a candidate source the first read didn't have. The same adapter
+ * reading the same sources through another strategy would repeat the same parsing glitch.
+ */
+export function isIndependentRead(original: TrackingResult, refetch: TrackingResult): boolean {
+    if (!refetch.success || refetch.price === undefined) return false;
+    if (refetch.adapterId !== original.adapterId) return true;
+
+    const used = new Set((original.candidates || []).map(candidate => candidate.source));
+    return (refetch.candidates || []).some(candidate => !used.has(candidate.source) && sameAmount(candidate.amount, refetch.price!));
+}
+
+/**
+ * Recent confirmed prices for a product, newest first
+ */
+export async function getRecentPrices(productId: string): Promise<number[]> {
+    const { data } = await supabase
+        .from('price_snapshots')
+        .select('price')
+        .eq('product_id', productId)
+        .eq('needs_review', false)
+        .order('created_at', { ascending: false })
+        .limit(PRICE_HISTORY_SIZE);
+
+    return (data || []).map(row => Number(row.price));
+}
+
+/**
+ * Park an unconfirmed price (once per product and price until it is resolved)
+ */
+export async function quarantinePrice(row: QuarantineInsert): Promise<boolean> {
+    const { data: pending } = await supabase
+        .from('price_quarantine')
+        .select('id')
+        .eq('product_id', row.product_id)
+        .eq('price', row.price)
+        .is('resolved_at', null)
+        .limit(1);
+
+    if (pending && pending.length > 0) return false;
+
+    const { error } = await supabase.from('price_quarantine').insert(row);
+    if (error) {
+        console.error('❌ Error quarantining price:', error);
+        return false;
+    }
+    return true;
+}
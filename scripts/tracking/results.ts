@@ -0,0 +1,71 @@
+import { ProductToTrack, TrackingResult, TrackingErrorCode, ExtractedProduct, ExtractedPrice, PriceDetails, PriceCandidate, SelectorReport } from './types.js';
+import { getStoreLocale } from '../utils/price-parser.js';
+import { resolvePriceConsensus, toCandidate } from './consensus.js';
+
+/**
+ * Collect the promotional fields of an extracted price (undefined when the store shows none)
+ */
+export function toPriceDetails(price: ExtractedPrice): PriceDetails | undefined {
+    const { listPrice = null, installments = [], conditionalPrices = [] } = price;
+    let { discountPercent = null } = price;
+
+    if (listPrice === null && discountPercent === null && installments.length === 0 && conditionalPrices.length === 0) {
+        return undefined;
+    }
+
+    if (discountPercent === null && listPrice !== null && price.amount !== null && listPrice > price.amount) {
+        discountPercent = Math.round((1 - price.amount / listPrice) * 100);
+    }
+
+    return { listPrice, discountPercent, installments, conditionalPrices };
+}
+
+/**
+ * Turn an adapter extraction into a TrackingResult (shared by every page-reading strategy)
+ * A missing price on an out-of-stock page is PRODUCT_UNAVAILABLE, not an extraction failure.
+ * The reported price is the consensus of the adapter's candidates, scored in `confidence`
+ */
+export function resultFromExtraction(
+    product: ProductToTrack,
+    strategyName: string,
+    extracted: ExtractedProduct | null,
+    page: { httpStatus?: number; finalUrl?: string; adapterId?: string; selectors?: SelectorReport }
+): TrackingResult {
+    const base = {
+        productId: product.id,
+        httpStatus: page.httpStatus,
+        finalUrl: page.finalUrl,
+        listing: extracted?.listing,
+        adapterId: page.adapterId,
+        selectors: page.selectors,
+        strategyUsed: strategyName,
+    };
+
+    if (!extracted || !extracted.price || extracted.price.amount === null) {
+        if (extracted?.listing?.availability === 'out_of_stock') {
+            return { ...base, success: false, error: 'Out of stock (no price shown)', errorCode: TrackingErrorCode.PRODUCT_UNAVAILABLE };
+        }
+        return { ...base, success: false, error: 'Price not found', errorCode: TrackingErrorCode.PRICE_NOT_FOUND };
+    }
+
+    // Adapters that don't report candidates vouch for their single price like a DOM read
+    const candidates = extracted.price.candidates?.length
+        ? extracted.price.candidates
+        : [toCandidate('dom', { ...extracted.price, confidence: extracted.price.confidence || 'high' })]
+            .filter((candidate): candidate is PriceCandidate => candidate !== null);
+    const consensus = resolvePriceConsensus(candidates);
+    const price = consensus.winner
+        ? { ...extracted.price, amount: consensus.winner.amount, currency: consensus.winner.currency || extracted.price.currency }
+        : extracted.price;
+
+    return {
+        ...base,
+        success: true,
+        price: price.amount!,
+        currency: price.currency || getStoreLocale(new URL(product.original_url).hostname).currency,
+        priceDetails: toPriceDetails(price),
+        confidence: consensus.score,
+        candidates,
+        needsReview: consensus.needsReview,
+    };
+}
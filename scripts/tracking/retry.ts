@@ -0,0 +1,98 @@
+/**
+ * Retry policy and per-domain circuit breaker for tracking attempts
+ */
+
+import { TrackingResult, TrackingErrorCode } from './types.js';
+
+export interface RetryPolicy {
+    /** Total attempts per strategy, including the first one */
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 15000,
+};
+
+// Transient failures worth repeating with the same strategy
+const RETRYABLE_ERROR_CODES = [
+    TrackingErrorCode.TIMEOUT,
+    TrackingErrorCode.NETWORK_ERROR,
+    TrackingErrorCode.NAVIGATION_ERROR,
+    TrackingErrorCode.RATE_LIMITED,
+    TrackingErrorCode.BROWSER_ERROR,
+];
+
+/**
+ * Check if a failed result is worth retrying
+ */
+export function isRetryable(result: TrackingResult): boolean {
+    if (result.success || !result.errorCode) return false;
+    if (result.errorCode === TrackingErrorCode.HTTP_ERROR) {
+        return (result.httpStatus ?? 0) >= 500;
+    }
+    return RETRYABLE_ERROR_CODES.includes(result.errorCode);
+}
+
+/**
+ * Exponential backoff with jitter (50-100% of the capped delay)
+ */
+export function getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+    const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+    return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+/**
+ * Run an attempt until it succeeds, fails for a non-retryable reason or runs out of attempts
+ */
+export async function withRetry(
+    attempt: () => Promise<TrackingResult>,
+    policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Promise<TrackingResult> {
+    let result = await attempt();
+
+    for (let i = 1; i < policy.maxAttempts && isRetryable(result); i++) {
+        const delay = getBackoffDelay(i - 1, policy);
+        console.log(`   🔁 Retry ${i}/${policy.maxAttempts - 1} in ${(delay / 1000).toFixed(1)}s (${result.errorCode})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        result = await attempt();
+    }
+
+    return result;
+}
+
+/**
+ * Stops attempting a domain for the rest of the run after N consecutive bot blocks
+ */
+export class CircuitBreaker {
+    private consecutiveBlocks: Map<string, number> = new Map();
+    private open: Set<string> = new Set();
+
+    constructor(private threshold: number = 3) {}
+
+    isOpen(domain: string): boolean {
+        return this.open.has(domain);
+    }
+
+    record(domain: string, result: TrackingResult): void {
+        if (result.errorCode !== TrackingErrorCode.BOT_BLOCKED) {
+            this.consecutiveBlocks.set(domain, 0);
+            return;
+        }
+
+        const blocks = (this.consecutiveBlocks.get(domain) || 0) + 1;
+        this.consecutiveBlocks.set(domain, blocks);
+
+        if (blocks >= this.threshold && !this.open.has(domain)) {
+            this.open.add(domain);
+            console.warn(`   🚫 Circuit open for ${domain} after ${blocks} consecutive bot blocks - deferring remaining products`);
+        }
+    }
+
+    getOpenDomains(): string[] {
+        return [...this.open];
+    }
+}
@@ -0,0 +1,189 @@
+/**
+ * Politeness Scheduler
+ * Runs tracking work with per-host concurrency and minimum intervals (raised by
+ * robots.txt crawl-delay), interleaving hosts so no single store gets hammered
+ */
+
+import { RateLimit } from './types.js';
+import { getRateLimit } from './manager.js';
+
+const ROBOTS_TIMEOUT_MS = 5000;
+
+interface HostState {
+    host: string;
+    queue: number[]; // indexes into the input list
+    active: number;
+    nextStartAt: number;
+    limit: RateLimit;
+}
+
+const crawlDelayCache: Map<string, number | null> = new Map();
+
+/**
+ * Extract the Crawl-delay (seconds) that applies to all user agents
+ */
+function parseCrawlDelay(robotsTxt: string): number | null {
+    let inWildcardGroup = false;
+    let lastLineWasAgent = false;
+
+    for (const rawLine of robotsTxt.split('\n')) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        const separator = line.indexOf(':');
+        if (separator === -1) continue;
+
+        const field = line.slice(0, separator).trim().toLowerCase();
+        const value = line.slice(separator + 1).trim();
+
+        if (field === 'user-agent') {
+            // Consecutive User-agent lines share one group
+            inWildcardGroup = (lastLineWasAgent && inWildcardGroup) || value === '*';
+            lastLineWasAgent = true;
+            continue;
+        }
+
+        lastLineWasAgent = false;
+        if (inWildcardGroup && field === 'crawl-delay') {
+            const delay = parseFloat(value);
+            return isNaN(delay) ? null : delay;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Fetch robots.txt crawl-delay for a host (cached for the process)
+ */
+async function getCrawlDelay(host: string): Promise<number | null> {
+    if (crawlDelayCache.has(host)) return crawlDelayCache.get(host)!;
+
+    let delay: number | null = null;
+    try {
+        const response = await fetch(`https://${host}/robots.txt`, {
+            signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS),
+        });
+        if (response.ok) {
+            delay = parseCrawlDelay(await response.text());
+        }
+    } catch (e) { /* No robots.txt means no crawl-delay */ }
+
+    crawlDelayCache.set(host, delay);
+    return delay;
+}
+
+function getHost(url: string): string {
+    try {
+        return new URL(url).hostname.replace('www.', '');
+    } catch (e) {
+        return 'unknown';
+    }
+}
+
+export class PolitenessScheduler {
+    private hosts: HostState[] = [];
+    private cursor = 0;
+    private waiters: Array<() => void> = [];
+
+    /**
+     * @param polite - false skips robots.txt and per-host limits (fixture replay never hits the store)
+     */
+    constructor(private concurrency: number, private polite: boolean = true) {}
+
+    /**
+     * Run the worker over every item, respecting per-host limits.
+     * Results keep the input order.
+     */
+    async run<T extends { original_url: string }, R>(items: T[], worker: (item: T, index: number) => Promise<R>): Promise<R[]> {
+        await this.buildHostQueues(items);
+
+        const results: R[] = new Array(items.length);
+        const workers = Array.from({ length: Math.min(this.concurrency, items.length) }, async () => {
+            while (true) {
+                const task = await this.nextTask();
+                if (!task) return;
+
+                try {
+                    results[task.index] = await worker(items[task.index], task.index);
+                } finally {
+                    task.host.active--;
+                    this.notify();
+                }
+            }
+        });
+
+        await Promise.all(workers);
+        return results;
+    }
+
+    private async buildHostQueues<T extends { original_url: string }>(items: T[]) {
+        const byHost: Map<string, number[]> = new Map();
+        items.forEach((item, index) => {
+            const host = getHost(item.original_url);
+            if (!byHost.has(host)) byHost.set(host, []);
+            byHost.get(host)!.push(index);
+        });
+
+        this.hosts = await Promise.all([...byHost.entries()].map(async ([host, queue]) => {
+            if (!this.polite) {
+                return { host, queue, active: 0, nextStartAt: 0, limit: { maxConcurrent: this.concurrency, minIntervalMs: 0 } };
+            }
+
+            const limit = { ...getRateLimit(host) };
+            const crawlDelay = await getCrawlDelay(host);
+            if (crawlDelay !== null && crawlDelay * 1000 > limit.minIntervalMs) {
+                console.log(`   🤖 ${host}: robots.txt crawl-delay ${crawlDelay}s`);
+                limit.minIntervalMs = crawlDelay * 1000;
+            }
+            return { host, queue, active: 0, nextStartAt: 0, limit };
+        }));
+
+        console.log(`🚦 Scheduling ${items.length} products across ${this.hosts.length} hosts`);
+    }
+
+    /**
+     * Pick the next product round-robin across hosts, waiting for a host to become available
+     */
+    private async nextTask(): Promise<{ index: number; host: HostState } | null> {
+        while (true) {
+            const pending = this.hosts.filter(h => h.queue.length > 0);
+            if (pending.length === 0) return null;
+
+            const now = Date.now();
+            for (let i = 0; i < this.hosts.length; i++) {
+                const host = this.hosts[(this.cursor + i) % this.hosts.length];
+                if (host.queue.length === 0 || host.active >= host.limit.maxConcurrent || host.nextStartAt > now) {
+                    continue;
+                }
+
+                this.cursor = (this.cursor + i + 1) % this.hosts.length;
+                host.active++;
+                host.nextStartAt = now + host.limit.minIntervalMs;
+                return { index: host.queue.shift()!, host };
+            }
+
+            // Sleep until the earliest interval ends or a slot frees up
+            const withCapacity = pending.filter(h => h.active < h.limit.maxConcurrent);
+            const waitMs = withCapacity.length > 0
+                ? Math.max(0, Math.min(...withCapacity.map(h => h.nextStartAt)) - now)
+                : Infinity;
+            await this.wait(waitMs);
+        }
+    }
+
+    private wait(ms: number): Promise<void> {
+        return new Promise(resolve => {
+            let timer: NodeJS.Timeout | null = null;
+            const done = () => {
+                if (timer) clearTimeout(timer);
+                this.waiters = this.waiters.filter(w => w !== done);
+                resolve();
+            };
+            if (ms !== Infinity) timer = setTimeout(done, ms);
+            this.waiters.push(done);
+        });
+    }
+
+    private notify() {
+        for (const waiter of [...this.waiters]) waiter();
+    }
+}
@@ -0,0 +1,198 @@
+/**
+ * Persistent Browser Sessions
+ * One profile per store domain (cookie jar, localStorage, stable UA/viewport) so
+ * BROWSER_HARD looks like a returning visitor. Profiles are retired when the store
+ * flags them (account-verification redirect), get too old or get blocked too often.
+ */
+
+import { randomUUID } from 'crypto';
+import { Page, Cookie, CookieParam } from 'puppeteer';
+import { supabase } from '../utils/db.js';
+import { TrackingResult, TrackingErrorCode } from './types.js';
+import { isBotRedirect } from './errors.js';
+
+const MAX_PROFILE_AGE_DAYS = 30;
+// Retire once blocks exceed this share of uses (after MIN_USES_FOR_BLOCK_RATE uses)
+const MAX_BLOCK_RATE = 0.5;
+const MIN_USES_FOR_BLOCK_RATE = 5;
+
+const VIEWPORTS = [
+    { width: 1920, height: 1080 },
+    { width: 1536, height: 864 },
+    { width: 1440, height: 900 },
+    { width: 1366, height: 768 },
+];
+
+export interface BrowserProfile {
+    id: string;
+    domain: string;
+    user_agent: string;
+    viewport: { width: number; height: number };
+    cookies: Cookie[];
+    local_storage: Record<string, string>;
+    uses: number;
+    blocks: number;
+    created_at: string;
+    last_used_at: string | null;
+    retired_at: string | null;
+    retired_reason: string | null;
+}
+
+export class SessionStore {
+    private profiles: Map<string, BrowserProfile> = new Map();
+    private retired: BrowserProfile[] = [];
+    private dirty: Set<string> = new Set();
+    private loading: Promise<void> | null = null;
+
+    constructor(private userAgents: string[]) {}
+
+    /**
+     * Load active profiles once (missing table just means cold sessions)
+     */
+    load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = (async () => {
+                const { data, error } = await supabase
+                    .from('browser_profiles')
+                    .select('*')
+                    .is('retired_at', null);
+
+                if (error) {
+                    console.warn(`⚠️  Could not load browser profiles: ${error.message}`);
+                    return;
+                }
+
+                for (const row of data || []) {
+                    const profile = row as BrowserProfile;
+                    if (this.getAgeDays(profile) > MAX_PROFILE_AGE_DAYS) {
+                        this.retire(profile, 'expired');
+                    } else {
+                        this.profiles.set(profile.domain, profile);
+                    }
+                }
+                console.log(`🍪 Loaded ${this.profiles.size} browser profiles`);
+            })();
+        }
+        return this.loading;
+    }
+
+    /**
+     * Active profile for a domain, creating a fresh one if needed
+     */
+    getProfile(domain: string): BrowserProfile {
+        let profile = this.profiles.get(domain);
+        if (!profile) {
+            profile = {
+                id: randomUUID(),
+                domain,
+                user_agent: this.userAgents[Math.floor(Math.random() * this.userAgents.length)],
+                viewport: VIEWPORTS[Math.floor(Math.random() * VIEWPORTS.length)],
+                cookies: [],
+                local_storage: {},
+                uses: 0,
+                blocks: 0,
+                created_at: new Date().toISOString(),
+                last_used_at: null,
+                retired_at: null,
+                retired_reason: null,
+            };
+            this.profiles.set(domain, profile);
+        }
+        return profile;
+    }
+
+    /**
+     * Apply a profile to a page before navigating
+     * Returns a cleanup callback (pooled pages are reused for other domains)
+     */
+    async applyToPage(page: Page, profile: BrowserProfile, url: string): Promise<() => Promise<void>> {
+        await page.setUserAgent(profile.user_agent);
+        await page.setViewport(profile.viewport);
+
+        if (profile.cookies.length > 0) {
+            await page.setCookie(...profile.cookies as CookieParam[]);
+        }
+
+        const origin = new URL(url).origin;
+        const { identifier } = await page.evaluateOnNewDocument((targetOrigin, entries) => {
+            if (location.origin !== targetOrigin) return;
+            for (const [key, value] of Object.entries(entries)) {
+                try { localStorage.setItem(key, value); } catch (e) {}
+            }
+        }, origin, profile.local_storage);
+
+        return async () => {
+            await page.removeScriptToEvaluateOnNewDocument(identifier).catch(() => {});
+        };
+    }
+
+    /**
+     * Save the page's cookies/localStorage into the profile and account for the outcome
+     */
+    async captureFromPage(page: Page, profile: BrowserProfile, url: string, result: TrackingResult): Promise<void> {
+        profile.uses++;
+        profile.last_used_at = new Date().toISOString();
+        this.dirty.add(profile.domain);
+
+        if (result.errorCode === TrackingErrorCode.BOT_BLOCKED) {
+            profile.blocks++;
+        }
+
+        const flagged = !!result.finalUrl && isBotRedirect(result.finalUrl);
+        const blockRate = profile.blocks / profile.uses;
+        if (flagged || (profile.uses >= MIN_USES_FOR_BLOCK_RATE && blockRate > MAX_BLOCK_RATE)) {
+            // Drop its cookies from the shared jar so the next profile starts clean
+            const cookies = await page.cookies(url).catch(() => []);
+            await page.deleteCookie(...cookies).catch(() => {});
+            this.retire(profile, flagged ? 'account-verification' : `block rate ${(blockRate * 100).toFixed(0)}%`);
+            return;
+        }
+
+        profile.cookies = await page.cookies(url).catch(() => profile.cookies);
+
+        // localStorage is per origin; skip it if we ended up on another host
+        if (!result.finalUrl || new URL(result.finalUrl).origin !== new URL(url).origin) return;
+        const storage = await page.evaluate(() => JSON.stringify({ ...localStorage })).catch(() => null);
+        if (storage) {
+            profile.local_storage = JSON.parse(storage);
+        }
+    }
+
+    /**
+     * Persist profiles used or retired during this run
+     */
+    async save(): Promise<void> {
+        // Retired rows first: a domain's replacement profile can't be active alongside them
+        const rows = [
+            ...this.retired,
+            ...[...this.dirty].map(domain => this.profiles.get(domain)).filter((p): p is BrowserProfile => !!p),
+        ];
+        if (rows.length === 0) return;
+
+        const { error } = await supabase
+            .from('browser_profiles')
+            .upsert(rows, { onConflict: 'id' });
+
+        if (error) {
+            console.error('❌ Error saving browser profiles:', error);
+            return;
+        }
+
+        this.dirty.clear();
+        this.retired = [];
+        console.log(`🍪 Saved ${rows.length} browser profiles`);
+    }
+
+    private retire(profile: BrowserProfile, reason: string) {
+        console.warn(`   🪪 Retiring browser profile for ${profile.domain} (${reason})`);
+        profile.retired_at = new Date().toISOString();
+        profile.retired_reason = reason;
+        this.profiles.delete(profile.domain);
+        this.dirty.delete(profile.domain);
+        this.retired.push(profile);
+    }
+
+    private getAgeDays(profile: BrowserProfile): number {
+        return (Date.now() - new Date(profile.created_at).getTime()) / (1000 * 60 * 60 * 24);
+    }
+}
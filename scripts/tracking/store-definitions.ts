@@ -0,0 +1,285 @@
+/**
+ * Declarative Store Definitions
+ * Stores can be added as JSON files instead of code: domains, strategy, locale, selectors or
+ * JSON paths for each field, and URL canonicalization rules. Every *.json file in
+ * STORE_DEFINITIONS_DIR (default stores/) is validated against stores/schema.json when
+ * StrategyManager.init() registers them; invalid files are reported and skipped.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { StrategyType, RateLimit, Availability } from './types.js';
+import { matchesDomain } from './adapters/helpers.js';
+import { PRICE_LOCALES, registerStoreLocale } from '../utils/price-parser.js';
+
+export interface FieldRule {
+    selector?: string;
+    attribute?: string;
+    jsonPath?: string;
+    /** 'next-data' (default), 'json-ld', or the marker before an inline script object */
+    from?: string;
+    /** Store wording -> availability */
+    values?: Record<string, Availability>;
+}
+
+export type FieldRules = FieldRule | FieldRule[];
+
+export interface StoreDefinitionTest {
+    url: string;
+    expect: {
+        title?: string;
+        price?: number;
+        listPrice?: number;
+        currency?: string;
+        sku?: string;
+        availability?: Availability;
+    };
+}
+
+export interface StoreDefinition {
+    id: string;
+    name?: string;
+    domains: string[];
+    locale: string;
+    strategy?: Exclude<StrategyType, 'FALLBACK_API'>;
+    difficulty?: 'easy' | 'medium' | 'hard';
+    rateLimit?: RateLimit;
+    productUrlPattern?: string;
+    readySelector?: string;
+    fields: {
+        title?: FieldRules;
+        price: FieldRules;
+        listPrice?: FieldRules;
+        image?: FieldRules;
+        sku?: FieldRules;
+        availability?: FieldRules;
+    };
+    canonicalUrl?: {
+        keepParams?: string[];
+        stripTrailingSlash?: boolean;
+        rewrite?: Array<{ pattern: string; replace: string }>;
+    };
+    tests?: StoreDefinitionTest[];
+    /** File the definition was loaded from */
+    file: string;
+}
+
+export function getStoreDefinitionsDir(): string {
+    return path.resolve(process.env.STORE_DEFINITIONS_DIR || 'stores');
+}
+
+/**
+ * The subset of JSON Schema stores/schema.json uses (type, enum, pattern, minimum, required,
+ * properties, additionalProperties, items, minItems, anyOf, local $ref)
+ */
+function validateSchema(value: any, schema: any, root: any, at: string, errors: string[]): void {
+    if (schema.$ref) {
+        const target = schema.$ref.replace(/^#\//, '').split('/').reduce((node: any, key: string) => node?.[key], root);
+        return validateSchema(value, target, root, at, errors);
+    }
+
+    if (schema.anyOf) {
+        const attempts = schema.anyOf.map((option: any) => {
+            const optionErrors: string[] = [];
+            validateSchema(value, option, root, at, optionErrors);
+            return optionErrors;
+        });
+        if (!attempts.some((attempt: string[]) => attempt.length === 0)) {
+            // Report the closest option rather than every alternative
+            errors.push(...attempts.reduce((a: string[], b: string[]) => (b.length < a.length ? b : a)));
+            return;
+        }
+    }
+
+    const type = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+    if (schema.type) {
+        const matches = schema.type === 'integer' ? Number.isInteger(value) : schema.type === type;
+        if (!matches) {
+            errors.push(`${at}: expected ${schema.type}, got ${type}`);
+            return;
+        }
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(`${at}: must be one of ${schema.enum.join(', ')}`);
+    }
+    if (schema.pattern && typeof value === 'string' && !new RegExp(schema.pattern).test(value)) {
+        errors.push(`${at}: "${value}" does not match ${schema.pattern}`);
+    }
+    if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+        errors.push(`${at}: must be at least ${schema.minimum}`);
+    }
+
+    if (type === 'array') {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push(`${at}: needs at least ${schema.minItems} item(s)`);
+        }
+        if (schema.items) {
+            value.forEach((item: any, i: number) => validateSchema(item, schema.items, root, `${at}[${i}]`, errors));
+        }
+    }
+
+    if (type === 'object') {
+        for (const key of schema.required || []) {
+            if (value[key] === undefined) errors.push(`${at}: missing "${key}"`);
+        }
+        for (const [key, item] of Object.entries(value)) {
+            const propertySchema = schema.properties?.[key];
+            if (propertySchema) {
+                validateSchema(item, propertySchema, root, `${at}.${key}`, errors);
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${at}: unknown property "${key}"`);
+            } else if (typeof schema.additionalProperties === 'object') {
+                validateSchema(item, schema.additionalProperties, root, `${at}.${key}`, errors);
+            }
+        }
+    }
+}
+
+export function ruleList(rules: FieldRules | undefined): FieldRule[] {
+    return !rules ? [] : Array.isArray(rules) ? rules : [rules];
+}
+
+/**
+ * Checks the schema cannot express (known locale, valid regular expressions)
+ */
+function validateDefinition(definition: StoreDefinition): string[] {
+    const errors: string[] = [];
+    if (definition.locale && !PRICE_LOCALES[definition.locale]) {
+        errors.push(`$.locale: unknown locale ${definition.locale} (see PRICE_LOCALES in utils/price-parser.ts)`);
+    }
+
+    const patterns = [
+        ['$.productUrlPattern', definition.productUrlPattern],
+        ...(definition.canonicalUrl?.rewrite || []).map((r, i) => [`$.canonicalUrl.rewrite[${i}].pattern`, r.pattern]),
+    ];
+    for (const [at, pattern] of patterns) {
+        if (pattern === undefined) continue;
+        try {
+            new RegExp(pattern);
+        } catch (e) {
+            errors.push(`${at}: invalid regular expression`);
+        }
+    }
+
+    for (const [field, rules] of Object.entries(definition.fields || {})) {
+        ruleList(rules).forEach((rule, i) => {
+            if (rule.attribute && !rule.selector) errors.push(`$.fields.${field}[${i}]: "attribute" needs a "selector"`);
+        });
+    }
+    return errors;
+}
+
+/**
+ * Validate a parsed definition file (schema first, then semantic checks)
+ */
+export function validateStoreDefinition(value: unknown, schema: any): string[] {
+    const errors: string[] = [];
+    validateSchema(value, schema, schema, '$', errors);
+    return errors.length > 0 ? errors : validateDefinition(value as StoreDefinition);
+}
+
+export interface LoadedStoreDefinitions {
+    definitions: StoreDefinition[];
+    /** file -> validation errors */
+    invalid: Map<string, string[]>;
+}
+
+/**
+ * Read and validate every definition file in a directory
+ */
+export function readStoreDefinitions(dir: string = getStoreDefinitionsDir()): LoadedStoreDefinitions {
+    const result: LoadedStoreDefinitions = { definitions: [], invalid: new Map() };
+    if (!fs.existsSync(dir)) return result;
+
+    // Definitions are validated against the schema that sits next to them
+    const schemaPath = path.join(dir, 'schema.json');
+    const files = fs.readdirSync(dir).filter(file => file.endsWith('.json') && file !== 'schema.json').sort();
+    if (!fs.existsSync(schemaPath)) {
+        files.forEach(file => result.invalid.set(file, [`no schema.json in ${dir}`]));
+        return result;
+    }
+
+    const schema = JSON.parse(fs.readFileSync(schemaPath, 'utf-8'));
+    const ids = new Set<string>();
+    for (const file of files) {
+        let value: any;
+        try {
+            value = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'));
+        } catch (e) {
+            result.invalid.set(file, [`invalid JSON: ${(e as Error).message}`]);
+            continue;
+        }
+
+        const errors = validateStoreDefinition(value, schema);
+        if (errors.length === 0 && ids.has(value.id)) errors.push(`$.id: "${value.id}" is already defined`);
+        if (errors.length > 0) {
+            result.invalid.set(file, errors);
+            continue;
+        }
+
+        ids.add(value.id);
+        result.definitions.push({ ...value, file });
+    }
+    return result;
+}
+
+let loaded: StoreDefinition[] | null = null;
+
+/**
+ * Definitions for this run (loaded once on first use; invalid files are reported and skipped)
+ * Adapters and domain config for them are added by registerStoreDefinitions (adapters/index.ts)
+ */
+export function getStoreDefinitions(): StoreDefinition[] {
+    if (loaded) return loaded;
+
+    const { definitions, invalid } = readStoreDefinitions();
+    for (const [file, errors] of invalid) {
+        console.warn(`⚠️  Skipping store definition ${file}:\n${errors.map(e => `      ${e}`).join('\n')}`);
+    }
+    for (const definition of definitions) {
+        definition.domains.forEach(domain => registerStoreLocale(domain, definition.locale));
+    }
+    if (definitions.length > 0) {
+        console.log(`🗂️  Loaded ${definitions.length} store definition(s): ${definitions.map(d => d.id).join(', ')}`);
+    }
+
+    loaded = definitions;
+    return loaded;
+}
+
+/**
+ * Apply a definition's URL rules: rewrites in order, then only the kept query parameters
+ */
+export function canonicalizeUrl(url: string, rules: NonNullable<StoreDefinition['canonicalUrl']>): string {
+    let rewritten = url;
+    for (const { pattern, replace } of rules.rewrite || []) {
+        rewritten = rewritten.replace(new RegExp(pattern), replace);
+    }
+
+    const urlObj = new URL(rewritten);
+    if (rules.keepParams) {
+        const kept = new URLSearchParams();
+        for (const param of rules.keepParams) {
+            const value = urlObj.searchParams.get(param);
+            if (value !== null) kept.set(param, value);
+        }
+        urlObj.search = kept.toString();
+    }
+    if (rules.stripTrailingSlash && urlObj.pathname.length > 1) {
+        urlObj.pathname = urlObj.pathname.replace(/\/+$/, '');
+    }
+    urlObj.hash = '';
+    return urlObj.toString();
+}
+
+/**
+ * Definition whose domains cover the URL's host
+ */
+export function findStoreDefinition(url: string): StoreDefinition | null {
+    try {
+        const hostname = new URL(url).hostname.toLowerCase();
+        return getStoreDefinitions().find(d => matchesDomain(hostname, d.domains)) || null;
+    } catch (e) {
+        return null;
+    }
+}
@@ -0,0 +1,43 @@
+import { TrackingStrategy, ProductToTrack, TrackingResult, TrackOptions } from '../types.js';
+import { getSharedBrowserPool } from '../browser-pool.js';
+import { getFixtureMode, trackFromPageFixture } from '../fixtures.js';
+import { trackInBrowser } from './browser-page.js';
+
+// Only the document and the scripts/API calls that render the price are allowed through
+const ALLOWED_RESOURCES = ['document', 'script', 'xhr', 'fetch'];
+
+const BLOCKED_HOSTS = [
+    'google-analytics', 'googletagmanager', 'doubleclick', 'facebook', 'hotjar',
+    'clarity.ms', 'newrelic', 'nr-data', 'tiktok', 'criteo',
+];
+
+/**
+ * Middle tier for JS-rendered stores that don't need the stealth plugin:
+ * plain Puppeteer, aggressive resource blocking and short timeouts
+ */
+export class BrowserLightStrategy implements TrackingStrategy {
+    name = 'BROWSER_LIGHT';
+    private pool = getSharedBrowserPool();
+
+    async track(product: ProductToTrack, options: TrackOptions = {}): Promise<TrackingResult> {
+        console.log(`🪶 [BROWSER_LIGHT] Tracking ${product.title.substring(0, 40)}...`);
+
+        if (getFixtureMode() === 'replay') {
+            return trackFromPageFixture(product, this.name);
+        }
+
+        return trackInBrowser(this.name, this.pool, product, options, {
+            launcher: 'plain',
+            navigationTimeoutMs: 15000,
+            readyTimeoutMs: 5000,
+            blockRequest: (req) => !ALLOWED_RESOURCES.includes(req.resourceType()) || BLOCKED_HOSTS.some(host => req.url().includes(host)),
+            preparePage: async (page) => {
+                await page.setViewport({ width: 1280, height: 800 });
+            },
+        });
+    }
+
+    async close() {
+        await this.pool.close();
+    }
+}
@@ -0,0 +1,160 @@
+/**
+ * Browser Page Tracking
+ * The flow BROWSER_LIGHT and BROWSER_HARD share: take a pooled tab, navigate, wait for the
+ * store's price element, check for bot walls and HTTP errors, then extract with the store
+ * adapter. Each strategy brings its own tab setup, request blocking and timeouts.
+ */
+
+import { ProductToTrack, TrackingResult, TrackingErrorCode, TrackOptions } from '../types.js';
+import { getAdapterForUrl, PageDocument, ProbedDocument } from '../adapters/index.js';
+import { classifyError, codeForHttpStatus, isBotRedirect } from '../errors.js';
+import { BrowserPool, BrowserLauncher } from '../browser-pool.js';
+import { getFixtureMode, saveFixture } from '../fixtures.js';
+import { resultFromExtraction } from '../results.js';
+import { parseVariantKey } from '../../utils/variant-key.js';
+import { RequestLog, isEvidenceEnabled, captureFailureEvidence } from '../evidence.js';
+import { HTTPRequest, Page } from 'puppeteer';
+
+export interface BrowserPageOptions {
+    /** Chromium the tab is opened on: plain Puppeteer or the stealth plugin */
+    launcher: BrowserLauncher;
+    navigationTimeoutMs: number;
+    /** How long to wait for the adapter's ready selector */
+    readyTimeoutMs: number;
+    /** Requests to abort (trackers, heavy resources) */
+    blockRequest(request: HTTPRequest): boolean;
+    /** Condition that ends the ready wait early (e.g. landing on a verification page) */
+    waitForBlock?(page: Page, timeoutMs: number): Promise<unknown>;
+    /**
+     * Set up the tab before navigating; the returned callback runs with the result
+     * (failures included) before the tab goes back to the pool
+     */
+    preparePage?(page: Page, product: ProductToTrack): Promise<((result: TrackingResult) => Promise<void>) | void>;
+}
+
+/**
+ * Track a product on a pooled tab
+ */
+export async function trackInBrowser(
+    strategyName: string,
+    pool: BrowserPool,
+    product: ProductToTrack,
+    trackOptions: TrackOptions,
+    options: BrowserPageOptions
+): Promise<TrackingResult> {
+    let page: Page | null = null;
+    let discardPage = false;
+    let result: TrackingResult | null = null;
+    let requestLog: RequestLog | null = null;
+    let cleanup: ((result: TrackingResult) => Promise<void>) | void = undefined;
+    const adapter = getAdapterForUrl(product.original_url);
+
+    try {
+        page = await pool.acquire(options.launcher, trackOptions.proxy);
+        cleanup = await options.preparePage?.(page, product);
+
+        await page.setExtraHTTPHeaders({
+            'Accept-Language': 'es-CO,es;q=0.9,en;q=0.8',
+        });
+
+        await page.setRequestInterception(true);
+        page.on('request', (req) => {
+            if (req.isInterceptResolutionHandled()) return;
+            if (options.blockRequest(req)) {
+                req.abort().catch(() => {});
+            } else {
+                req.continue().catch(() => {});
+            }
+        });
+        requestLog = isEvidenceEnabled() ? new RequestLog(page) : null;
+
+        // Navigate
+        let httpStatus: number | undefined;
+        let navigationError: unknown = null;
+        try {
+            const response = await page.goto(product.original_url, { waitUntil: 'domcontentloaded', timeout: options.navigationTimeoutMs });
+            httpStatus = response?.status();
+        } catch (e) { navigationError = e; /* Ignore timeout if content loaded */ }
+
+        // Smart Wait
+        try {
+            const ready = page.waitForSelector(adapter.readySelector || 'meta[itemprop="price"]', { timeout: options.readyTimeoutMs });
+            await (options.waitForBlock ? Promise.race([ready, options.waitForBlock(page, options.readyTimeoutMs)]) : ready);
+        } catch (e) {}
+
+        const finalUrl = page.url();
+
+        if (httpStatus && getFixtureMode() === 'record') {
+            saveFixture({ kind: 'page', url: product.original_url, product, finalUrl, status: httpStatus, html: await page.content() });
+        }
+
+        // Check Bot Detection
+        const doc = new PageDocument(page);
+        const captcha = !isBotRedirect(finalUrl) && await adapter.isBlocked?.(doc);
+        if (isBotRedirect(finalUrl) || captcha) {
+            return result = {
+                productId: product.id,
+                success: false,
+                error: captcha ? 'Bot detection (captcha)' : 'Bot detection (redirect)',
+                errorCode: TrackingErrorCode.BOT_BLOCKED,
+                httpStatus,
+                finalUrl,
+                strategyUsed: strategyName
+            };
+        }
+
+        if (httpStatus && httpStatus >= 400) {
+            return result = {
+                productId: product.id,
+                success: false,
+                error: `HTTP ${httpStatus}`,
+                errorCode: codeForHttpStatus(httpStatus),
+                httpStatus,
+                finalUrl,
+                strategyUsed: strategyName
+            };
+        }
+
+        // Extract via the store adapter
+        const probe = new ProbedDocument(doc);
+        const extractedData = await adapter.extract(probe, parseVariantKey(product.variant_key));
+
+        // Nothing rendered because the page never loaded
+        if (navigationError && (!extractedData || !extractedData.price || extractedData.price.amount === null)) {
+            const failure = classifyError(navigationError);
+            return result = {
+                productId: product.id,
+                success: false,
+                error: failure.message,
+                errorCode: failure.code,
+                httpStatus,
+                finalUrl,
+                strategyUsed: strategyName
+            };
+        }
+
+        return result = resultFromExtraction(product, strategyName, extractedData, { httpStatus, finalUrl, adapterId: adapter.id, selectors: probe.report() });
+
+    } catch (error: any) {
+        discardPage = true;
+        const failure = classifyError(error);
+        console.error(`   ❌ [${strategyName}] Failed (${failure.code}): ${failure.message}`);
+        // Set so the evidence below covers timeouts and thrown bot walls too
+        return result = {
+            productId: product.id,
+            success: false,
+            error: failure.message,
+            errorCode: failure.code,
+            finalUrl: page?.url(),
+            strategyUsed: strategyName
+        };
+    } finally {
+        if (page) {
+            // Keep what the page showed before it is reset
+            if (result) await captureFailureEvidence(page, product, result, requestLog);
+            requestLog?.stop();
+            if (cleanup && result) await cleanup(result);
+            await pool.release(page, { discard: discardPage });
+        }
+    }
+}
@@ -0,0 +1,181 @@
+import { TrackingStrategy, ProductToTrack, TrackingResult, TrackingErrorCode, ListingDetails, MarketplaceFlag } from '../types.js';
+import { TrackingError, classifyError, codeForHttpStatus } from '../errors.js';
+import { toPriceDetails } from '../results.js';
+import { getStoreLocale } from '../../utils/price-parser.js';
+import { mercadoLibreAdapter, extractMercadoLibreId } from '../adapters/mercadolibre.js';
+import { fetchMercadoLibreItem, fetchMercadoLibreCatalogProduct, MercadoLibreApiError } from '../../scrapers/mercadolibre.js';
+
+interface ApiPrice {
+    price: number | null;
+    /** Price before the current promotion */
+    listPrice: number | null;
+    currency: string;
+    available: boolean;
+    status: string;
+    listing: ListingDetails;
+}
+
+/**
+ * Official marketplace API that can price a product from its URL alone
+ */
+interface MarketplaceApi {
+    id: string;
+    matches(url: URL): boolean;
+    /** null when the API doesn't know the product (throws UNSUPPORTED_STORE when the URL has no id) */
+    fetchPrice(url: string): Promise<ApiPrice | null>;
+}
+
+/**
+ * Seller and fulfillment details shared by items and catalog buy box winners
+ */
+function toMercadoLibreListing(
+    offer: { seller_id?: number; official_store_id?: number | null; shipping?: { logistic_type?: string } } | null,
+    available: boolean
+): ListingDetails {
+    const flags: MarketplaceFlag[] = [];
+    if (offer?.shipping?.logistic_type === 'fulfillment') flags.push('full');
+    if (offer?.official_store_id) flags.push('official_store');
+
+    return {
+        availability: available ? 'in_stock' : 'out_of_stock',
+        stockHint: null,
+        seller: offer?.seller_id ? { id: String(offer.seller_id), name: null } : null,
+        flags,
+    };
+}
+
+const mercadoLibreApi: MarketplaceApi = {
+    id: 'mercadolibre',
+
+    matches(url) {
+        return mercadoLibreAdapter.detect(url);
+    },
+
+    async fetchPrice(url) {
+        try {
+            return await fetchMercadoLibrePrice(url);
+        } catch (error) {
+            // 403 -> BOT_BLOCKED, 429 -> RATE_LIMITED, like a page response
+            if (error instanceof MercadoLibreApiError) {
+                throw new TrackingError(codeForHttpStatus(error.status), error.message, error.status);
+            }
+            throw error;
+        }
+    },
+};
+
+/**
+ * Price a MercadoLibre listing or catalog product (null when the id is unknown)
+ */
+async function fetchMercadoLibrePrice(url: string): Promise<ApiPrice | null> {
+    const ref = extractMercadoLibreId(url);
+    if (!ref) {
+        // Not a listing the API can look up; says nothing about whether the product exists
+        throw new TrackingError(TrackingErrorCode.UNSUPPORTED_STORE, 'No MercadoLibre item id in URL');
+    }
+
+    if (ref.type === 'item') {
+        const item = await fetchMercadoLibreItem(ref.id);
+        if (!item) return null;
+        const available = item.status === 'active' && (item.available_quantity ?? 1) > 0;
+        return {
+            price: item.price,
+            listPrice: item.original_price ?? null,
+            currency: item.currency_id,
+            available,
+            status: item.status,
+            listing: toMercadoLibreListing(item, available),
+        };
+    }
+
+    const catalogProduct = await fetchMercadoLibreCatalogProduct(ref.id);
+    if (!catalogProduct) return null;
+    const winner = catalogProduct.buy_box_winner;
+    const available = catalogProduct.status === 'active' && !!winner;
+    return {
+        price: winner?.price ?? null,
+        listPrice: winner?.original_price ?? null,
+        currency: winner?.currency_id || getStoreLocale(new URL(url).hostname).currency,
+        available,
+        status: winner ? catalogProduct.status : 'no_buy_box',
+        listing: toMercadoLibreListing(winner, available),
+    };
+}
+
+const MARKETPLACE_APIS: MarketplaceApi[] = [mercadoLibreApi];
+
+/**
+ * Last resort: read price straight from the marketplace items API,
+ * immune to bot-detection redirects on the product page
+ */
+export class FallbackApiStrategy implements TrackingStrategy {
+    name = 'FALLBACK_API';
+
+    supports(url: URL): boolean {
+        return MARKETPLACE_APIS.some(api => api.matches(url));
+    }
+
+    async track(product: ProductToTrack): Promise<TrackingResult> {
+        console.log(`🔌 [FALLBACK_API] Tracking ${product.title.substring(0, 40)}...`);
+
+        try {
+            const url = new URL(product.original_url);
+            const api = MARKETPLACE_APIS.find(a => a.matches(url));
+            if (!api) {
+                throw new TrackingError(TrackingErrorCode.UNSUPPORTED_STORE, `No marketplace API for ${url.hostname}`);
+            }
+
+            const data = await api.fetchPrice(product.original_url);
+            if (!data) {
+                throw new TrackingError(TrackingErrorCode.NOT_FOUND_404, 'Item not found in marketplace API', 404);
+            }
+
+            if (!data.available) {
+                return {
+                    productId: product.id,
+                    success: false,
+                    error: `Product unavailable (status: ${data.status})`,
+                    errorCode: TrackingErrorCode.PRODUCT_UNAVAILABLE,
+                    listing: data.listing,
+                    strategyUsed: this.name
+                };
+            }
+
+            if (!data.price) {
+                return {
+                    productId: product.id,
+                    success: false,
+                    error: 'Price not found',
+                    errorCode: TrackingErrorCode.PRICE_NOT_FOUND,
+                    listing: data.listing,
+                    strategyUsed: this.name
+                };
+            }
+
+            return {
+                productId: product.id,
+                success: true,
+                price: data.price,
+                currency: data.currency,
+                listing: data.listing,
+                priceDetails: toPriceDetails({ raw: String(data.price), amount: data.price, currency: data.currency, listPrice: data.listPrice }),
+                // The official API is the reference, nothing to reconcile
+                confidence: 1,
+                candidates: [{ source: 'api', amount: data.price, currency: data.currency, confidence: 'high' }],
+                strategyUsed: this.name
+            };
+
+        } catch (error: any) {
+            const failure = classifyError(error);
+            console.error(`   ❌ [FALLBACK_API] Failed (${failure.code}): ${failure.message}`);
+            return {
+                productId: product.id,
+                success: false,
+                error: failure.message,
+                errorCode: failure.code,
+                httpStatus: failure.httpStatus,
+                strategyUsed: this.name
+            };
+        }
+    }
+}
@@ -1,91 +1,121 @@
-import { TrackingStrategy, ProductToTrack, TrackingResult } from '../types.js';
+import { fetch as undiciFetch } from 'undici';
+import { TrackingStrategy, ProductToTrack, TrackingResult, TrackingErrorCode, TrackOptions } from '../types.js';
+import { getAdapterForUrl, detectPlatform, HtmlDocument, ProbedDocument } from '../adapters/index.js';
+import { TrackingError, classifyError, codeForHttpStatus, isBotRedirect } from '../errors.js';
+import { getProxyDispatcher } from '../proxy-pool.js';
+import { getFixtureMode, requireFixture, saveFixture } from '../fixtures.js';
+import { resultFromExtraction } from '../results.js';
+import { parseVariantKey } from '../../utils/variant-key.js';
+
+interface FetchedPage {
+    status: number;
+    statusText: string;
+    finalUrl: string;
+    html: string;
+}
 
 export class HttpFastStrategy implements TrackingStrategy {
     name = 'HTTP_FAST';
 
-    async track(product: ProductToTrack): Promise<TrackingResult> {
+    async track(product: ProductToTrack, options: TrackOptions = {}): Promise<TrackingResult> {
         console.log(`⚡ [HTTP_FAST] Tracking ${product.title.substring(0, 40)}...`);
 
         try {
-            const response = await fetch(product.original_url, {
-                headers: {
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
-                    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-                    'Accept-Language': 'es-CO,es;q=0.9,en;q=0.8',
-                },
-                redirect: 'follow'
-            });
-
-            if (!response.ok) {
-                if (response.status === 403 || response.status === 401) {
-                    throw new Error(`Auth/Bot blockade (HTTP ${response.status})`);
+            // Stores with a product data endpoint are read from it instead of the page
+            let adapter = getAdapterForUrl(product.original_url);
+            const dataUrl = adapter.getDataUrl?.(product.original_url) || null;
+            let response = this.checkResponse(await this.fetchPage(product, dataUrl || product.original_url, options, !!dataUrl));
+            let doc = new HtmlDocument(response.html, response.finalUrl);
+
+            // Platforms only recognizable from the page (e.g. Shopify) switch to their endpoint
+            if (!dataUrl) {
+                const platform = await detectPlatform(doc);
+                const platformDataUrl = platform?.getDataUrl?.(product.original_url);
+                if (platform && platformDataUrl) {
+                    adapter = platform;
+                    response = this.checkResponse(await this.fetchPage(product, platformDataUrl, options, true));
+                    doc = new HtmlDocument(response.html, response.finalUrl);
                 }
-                throw new Error(`HTTP ${response.status} ${response.statusText}`);
             }
 
-            const html = await response.text();
-            
-            // Extract Data (Simplified for now, will expand with adapters)
-            const priceData = this.extractPrice(html, product.merchant);
-
-            if (!priceData.price) {
-                return {
-                    productId: product.id,
-                    success: false,
-                    error: 'Price not found',
-                    strategyUsed: this.name
-                };
+            // Extract Data via the store adapter
+            if (await adapter.isBlocked?.(doc)) {
+                throw new TrackingError(TrackingErrorCode.BOT_BLOCKED, 'Bot detection (captcha)', response.status, response.finalUrl);
             }
+            const probe = new ProbedDocument(doc);
+            const extracted = await adapter.extract(probe, parseVariantKey(product.variant_key));
 
-            return {
-                productId: product.id,
-                success: true,
-                price: priceData.price,
-                currency: priceData.currency,
-                strategyUsed: this.name
-            };
+            return resultFromExtraction(product, this.name, extracted, { httpStatus: response.status, finalUrl: response.finalUrl, adapterId: adapter.id, selectors: probe.report() });
 
         } catch (error: any) {
-            console.error(`   ❌ [HTTP_FAST] Failed: ${error.message}`);
+            const failure = classifyError(error);
+            console.error(`   ❌ [HTTP_FAST] Failed (${failure.code}): ${failure.message}`);
             return {
                 productId: product.id,
                 success: false,
-                error: error.message,
+                error: failure.message,
+                errorCode: failure.code,
+                httpStatus: failure.httpStatus,
+                finalUrl: failure.finalUrl,
                 strategyUsed: this.name
             };
         }
     }
 
-    private extractPrice(html: string, merchant: string): { price?: number; currency?: string } {
-        // Generic extraction logic (similar to csv-import)
-        let price = 0;
-        let currency = 'COP';
-
-        // 1. JSON-LD
-        const jsonLdMatch = html.match(/<script type="application\/ld\+json"[^>]*>([\s\S]*?)<\/script>/i);
-        if (jsonLdMatch) {
-            try {
-                const jsonLd = JSON.parse(jsonLdMatch[1]);
-                const offer = Array.isArray(jsonLd) ? jsonLd.find(i => i['@type'] === 'Product')?.offers : jsonLd.offers;
-                const priceVal = offer?.price || offer?.[0]?.price;
-                if (priceVal) {
-                    return { price: parseFloat(priceVal), currency: offer?.priceCurrency || 'COP' };
-                }
-            } catch (e) {}
+    /**
+     * Fail on HTTP errors and bot redirects
+     */
+    private checkResponse(response: FetchedPage): FetchedPage {
+        if (response.status < 200 || response.status >= 300) {
+            const code = codeForHttpStatus(response.status);
+            const message = code === TrackingErrorCode.BOT_BLOCKED
+                ? `Auth/Bot blockade (HTTP ${response.status})`
+                : `HTTP ${response.status} ${response.statusText}`;
+            throw new TrackingError(code, message, response.status, response.finalUrl);
         }
 
-        // 2. Meta Tags
-        const metaPrice = html.match(/<meta property="product:price:amount" content="([\d.]+)"/i) || 
-                          html.match(/<meta property="og:price:amount" content="([\d.]+)"/i) ||
-                          html.match(/<meta itemprop="price" content="([\d.]+)"/i);
-        
-        if (metaPrice && metaPrice[1]) {
-            return { price: parseFloat(metaPrice[1]), currency: 'COP' };
+        if (isBotRedirect(response.finalUrl)) {
+            throw new TrackingError(TrackingErrorCode.BOT_BLOCKED, 'Bot detection (redirect)', response.status, response.finalUrl);
         }
 
-        // 3. Regex Fallback
-        // ... (can add more patterns later)
+        return response;
+    }
+
+    /**
+     * Fetch the product page or a data endpoint, or serve/record it as a fixture (keyed by the URL fetched)
+     */
+    private async fetchPage(product: ProductToTrack, target: string, options: TrackOptions, json = false): Promise<FetchedPage> {
+        const mode = getFixtureMode();
+        if (mode === 'replay') {
+            const fixture = requireFixture('http', target);
+            return { status: fixture.status, statusText: fixture.statusText || '', finalUrl: fixture.finalUrl, html: fixture.html };
+        }
+
+        const init = {
+            headers: {
+                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
+                'Accept': json ? 'application/json' : 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+                'Accept-Language': 'es-CO,es;q=0.9,en;q=0.8',
+            },
+            redirect: 'follow' as const
+        };
+
+        // Global fetch can't take a proxy dispatcher, undici's fetch can
+        const response = options.proxy
+            ? await undiciFetch(target, { ...init, dispatcher: getProxyDispatcher(options.proxy) })
+            : await fetch(target, init);
+
+        const page: FetchedPage = {
+            status: response.status,
+            statusText: response.statusText,
+            finalUrl: response.url || target,
+            html: await response.text(),
+        };
+
+        if (mode === 'record') {
+            saveFixture({ kind: 'http', url: target, product, ...page });
+        }
 
-        return { price, currency };
+        return page;
     }
 }
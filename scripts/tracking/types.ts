@@ -1,17 +1,92 @@
+import { PriceConfidence } from '../utils/price-parser.js';
+import { ProductVariant } from '../utils/variant-key.js';
+
+/**
+ * Why a tracking attempt failed (retries, deactivation and reporting branch on this)
+ */
+export enum TrackingErrorCode {
+    BOT_BLOCKED = 'BOT_BLOCKED',                 // 401/403 or account-verification redirect
+    RATE_LIMITED = 'RATE_LIMITED',               // 429
+    NOT_FOUND_404 = 'NOT_FOUND_404',             // Product page or item no longer exists (404/410)
+    PRODUCT_UNAVAILABLE = 'PRODUCT_UNAVAILABLE', // Listing exists but is paused/closed
+    PRICE_NOT_FOUND = 'PRICE_NOT_FOUND',         // Page loaded but no adapter found a price
+    TIMEOUT = 'TIMEOUT',
+    NAVIGATION_ERROR = 'NAVIGATION_ERROR',       // Browser could not load the page (net::ERR_*)
+    NETWORK_ERROR = 'NETWORK_ERROR',             // fetch failed (DNS, connection reset...)
+    HTTP_ERROR = 'HTTP_ERROR',                   // Any other non-2xx status
+    PARSE_ERROR = 'PARSE_ERROR',                 // Malformed HTML/JSON
+    UNSUPPORTED_STORE = 'UNSUPPORTED_STORE',     // Strategy can't handle this store
+    BROWSER_ERROR = 'BROWSER_ERROR',             // Chromium crashed or failed to launch
+    CIRCUIT_OPEN = 'CIRCUIT_OPEN',               // Domain skipped for the rest of the run
+    DOMAIN_PAUSED = 'DOMAIN_PAUSED',             // Domain paused after adapter drift until someone resumes it
+    FIXTURE_MISSING = 'FIXTURE_MISSING',         // Replay mode and nothing was recorded for this URL
+    UNKNOWN = 'UNKNOWN',
+}
+
 export interface TrackingResult {
     productId: string;
     success: boolean;
     price?: number;
     currency?: string;
     error?: string;
+    errorCode?: TrackingErrorCode;
+    httpStatus?: number;
+    finalUrl?: string;
+    /** Not attempted this run (circuit open, domain paused) - retry next run, don't count as failure */
+    deferred?: boolean;
+    /** Proxy label (host:port, no credentials) the attempt went through */
+    proxyUsed?: string;
+    /** Stock and seller details found next to the price */
+    listing?: ListingDetails;
+    /** List price, discount, installments and conditional prices */
+    priceDetails?: PriceDetails;
+    /** Agreement between the extracted price candidates, 0-1 (see tracking/consensus) */
+    confidence?: number;
+    /** Every price the extractors found, for reviewing disagreements */
+    candidates?: PriceCandidate[];
+    /** Confidence too low to record as a real price change */
+    needsReview?: boolean;
+    /** Adapter that read the page */
+    adapterId?: string;
+    /** Selectors the adapter queried on the page (see tracking/adapter-health) */
+    selectors?: SelectorReport;
     strategyUsed: string;
 }
 
+/**
+ * Selectors an adapter queried, split by whether they matched anything
+ */
+export interface SelectorReport {
+    matched: string[];
+    missed: string[];
+}
+
 export interface ProductToTrack {
     id: string;
     merchant: string;
     original_url: string;
     title: string;
+    /** products.category, used for plausible price bounds */
+    category?: string | null;
+    /** products.variant_key: the size/color/SKU to track (utils/variant-key) */
+    variant_key?: string | null;
+}
+
+export interface ProxyConfig {
+    /** host:port label, safe to log */
+    id: string;
+    protocol: 'http' | 'https' | 'socks4' | 'socks5';
+    host: string;
+    port: number;
+    username?: string;
+    password?: string;
+}
+
+/**
+ * Per-attempt settings chosen by the manager
+ */
+export interface TrackOptions {
+    proxy?: ProxyConfig;
 }
 
 export interface TrackingStrategy {
@@ -20,7 +95,13 @@ export interface TrackingStrategy {
     /**
      * Track a single product using this strategy
      */
-    track(product: ProductToTrack): Promise<TrackingResult>;
+    track(product: ProductToTrack, options?: TrackOptions): Promise<TrackingResult>;
+
+    /**
+     * Whether the strategy can serve the URL's store at all (assumed when missing);
+     * the manager leaves it out of the chain otherwise
+     */
+    supports?(url: URL): boolean;
 
     /**
      * Clean up any resources (e.g. close browser)
@@ -30,18 +111,90 @@ export interface TrackingStrategy {
 
 export type StrategyType = 'HTTP_FAST' | 'BROWSER_LIGHT' | 'BROWSER_HARD' | 'FALLBACK_API';
 
+export interface RateLimit {
+    /** Max products in flight at once for the host */
+    maxConcurrent: number;
+    /** Minimum gap between request starts on the host (raised by robots.txt crawl-delay) */
+    minIntervalMs: number;
+}
+
 export interface DomainConfig {
     strategy: StrategyType;
     difficulty: 'easy' | 'medium' | 'hard';
+    rateLimit?: RateLimit;
+    /** Route through the proxy pool when one is configured (default true) */
+    useProxy?: boolean;
 }
 
 /**
  * Data structures aligned with Chrome Extension
  */
-export interface ExtractedPrice {
+export interface InstallmentPlan {
+    count: number;
+    /** Amount per installment */
+    amount: number | null;
+    /** "Mismo precio" / "sin interés": paying in installments costs no more than the price */
+    interestFree: boolean;
+}
+
+export interface ConditionalPrice {
+    amount: number;
+    /** What unlocks it, as the store words it ("Tarjeta Éxito", "CMR") */
+    condition: string;
+}
+
+/**
+ * Promotional context around the price, so a "discount" can be checked against history
+ */
+export interface PriceDetails {
+    /** Crossed-out "before" price */
+    listPrice: number | null;
+    /** Discount the store advertises (computed from listPrice when not shown) */
+    discountPercent: number | null;
+    installments: InstallmentPlan[];
+    /** Lower prices that only apply with a store card, membership, etc. */
+    conditionalPrices: ConditionalPrice[];
+}
+
+export interface ExtractedPrice extends Partial<PriceDetails> {
     raw: string | null;
     amount: number | null;
     currency: string | null;
+    /** How unambiguous the price text was (see utils/price-parser) */
+    confidence?: PriceConfidence;
+    /** Every price the adapter found, in its order of preference */
+    candidates?: PriceCandidate[];
+}
+
+/** Where on the page a price candidate was read from ('state' = app state embedded in the page, e.g. __NEXT_DATA__) */
+export type PriceSource = 'api' | 'json-ld' | 'microdata' | 'rdfa' | 'state' | 'meta' | 'dom';
+
+export interface PriceCandidate {
+    source: PriceSource;
+    amount: number;
+    currency: string | null;
+    confidence: PriceConfidence;
+}
+
+export type Availability = 'in_stock' | 'out_of_stock' | 'preorder' | 'unknown';
+
+/**
+ * Marketplace badges: 'full' = fulfilled by the marketplace (MercadoLibre Full),
+ * 'official_store' = sold by the brand's official store
+ */
+export type MarketplaceFlag = 'full' | 'official_store';
+
+export interface SellerInfo {
+    id: string | null;
+    name: string | null;
+}
+
+export interface ListingDetails {
+    availability: Availability;
+    /** Low-stock text as the store shows it ("Últimas unidades", "3 disponibles") */
+    stockHint: string | null;
+    seller: SellerInfo | null;
+    flags: MarketplaceFlag[];
 }
 
 export interface ExtractedProduct {
@@ -49,13 +202,47 @@ export interface ExtractedProduct {
     price: ExtractedPrice;
     image: string | null;
     sku: string | null;
+    listing?: ListingDetails;
+}
+
+/**
+ * Read-only view of a product page that adapters query.
+ * Backed by static HTML (HTTP strategies) or a live Puppeteer page (browser strategies),
+ * so each store adapter is written once and runs in both.
+ */
+export interface AdapterDocument {
+    /** Final URL of the page (after redirects) */
+    readonly url: string;
+    /** Trimmed text of the first element matching the selector */
+    text(selector: string): Promise<string | null>;
+    /** Trimmed text of every element matching the selector */
+    textAll(selector: string): Promise<string[]>;
+    /** Attribute value of the first element matching the selector */
+    attr(selector: string, attribute: string): Promise<string | null>;
+    /** Full HTML of the page */
+    html(): Promise<string>;
 }
 
 export interface StoreAdapter {
     id: string;
     domains: string[];
-    detect(): boolean;
-    isProductPage(): boolean;
-    extract(): ExtractedProduct | null;
-    getCleanUrl?(): string;
+    /** Selector that signals the price has rendered (browser strategies wait for it) */
+    readySelector?: string;
+    detect(url: URL): boolean;
+    /** Platforms that run on any domain (e.g. Shopify) recognize themselves from a fetched page */
+    detectFromPage?(doc: AdapterDocument): Promise<boolean>;
+    /** Variant a product URL selects (e.g. a color code), used for the product's variant key */
+    getVariant?(url: string): ProductVariant | null;
+    isProductPage(doc: AdapterDocument): Promise<boolean>;
+    /** Bot wall served in place of the product (e.g. a captcha form with HTTP 200) */
+    isBlocked?(doc: AdapterDocument): Promise<boolean>;
+    /**
+     * Throws a TrackingError when the document itself says why there is no price
+     * (e.g. a catalog API that no longer lists the product)
+     * @param variant - The product's tracked variant, when it has one
+     */
+    extract(doc: AdapterDocument, variant?: ProductVariant | null): Promise<ExtractedProduct | null>;
+    getCleanUrl?(url: string): string;
+    /** Product data endpoint HTTP strategies fetch instead of the page (extract then gets its body) */
+    getDataUrl?(url: string): string | null;
 }
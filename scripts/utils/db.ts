@@ -1,6 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
 import crypto from 'crypto';
 import * as dotenv from 'dotenv';
+import { findStoreDefinition, canonicalizeUrl } from '../tracking/store-definitions.js';
 
 // Load environment variables
 dotenv.config();
@@ -18,6 +19,8 @@ export interface ProductInsert {
     product_hash: string;
     title: string;
     currency: string;
+    category?: string | null;
+    variant_key?: string | null;
 }
 
 export interface PriceSnapshotInsert {
@@ -25,6 +28,18 @@ export interface PriceSnapshotInsert {
     price: number;
     currency: string;
     source: string;
+    availability?: string | null;
+    stock_hint?: string | null;
+    seller_id?: string | null;
+    seller_name?: string | null;
+    marketplace_flags?: string[];
+    list_price?: number | null;
+    discount_percent?: number | null;
+    installments?: { count: number; amount: number | null; interestFree: boolean }[];
+    conditional_prices?: { amount: number; condition: string }[];
+    confidence?: number | null;
+    needs_review?: boolean;
+    price_candidates?: { source: string; amount: number; currency: string | null; confidence: string }[];
 }
 
 /**
@@ -35,12 +50,24 @@ export function normalizeUrl(url: string): string {
     try {
         const urlObj = new URL(url);
 
+        // Stores added as definition files bring their own rules
+        const canonicalRules = findStoreDefinition(url)?.canonicalUrl;
+        if (canonicalRules) return canonicalizeUrl(url, canonicalRules);
+
         // Remove ALL query parameters for MercadoLibre product URLs
         // MercadoLibre product URLs have the format: /product-name/p/PRODUCTID
         // Everything after that is tracking/session data
+        const asin = urlObj.hostname.includes('amazon')
+            ? urlObj.pathname.match(/\/(?:dp|gp\/product|gp\/aw\/d)\/([A-Z0-9]{10})(?:\/|$)/i)?.[1]
+            : undefined;
+
         if (urlObj.hostname.includes('mercadolibre')) {
             // Keep only the path (which includes the product ID)
             urlObj.search = '';
+        } else if (asin) {
+            // Amazon: the ASIN is the product, slug and ref/query params are noise
+            urlObj.pathname = `/dp/${asin.toUpperCase()}`;
+            urlObj.search = '';
         } else {
             // For other merchants, remove common tracking parameters
             const paramsToRemove = [
@@ -63,10 +90,11 @@ export function normalizeUrl(url: string): string {
 }
 
 /**
- * Generate product hash from merchant and normalized URL
+ * Generate product hash from merchant, normalized URL and variant key (utils/variant-key)
+ * Products without a variant keep the hash they had before variants existed
  */
-export function generateProductHash(merchant: string, normalizedUrl: string): string {
-    const input = `${merchant}:${normalizedUrl}`;
+export function generateProductHash(merchant: string, normalizedUrl: string, variantKey?: string | null): string {
+    const input = variantKey ? `${merchant}:${normalizedUrl}#${variantKey}` : `${merchant}:${normalizedUrl}`;
     return crypto.createHash('sha256').update(input).digest('hex');
 }
 
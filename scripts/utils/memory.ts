@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as os from 'os';
+
+const MB = 1024 * 1024;
+
+function readNumber(filePath: string): number | null {
+    try {
+        const value = fs.readFileSync(filePath, 'utf-8').trim();
+        const parsed = parseInt(value, 10);
+        return isNaN(parsed) ? null : parsed; // "max" = unlimited
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Memory still available to this container, in MB
+ * Uses the cgroup limit (Render/Railway/Docker) and falls back to host free memory
+ */
+export function getAvailableMemoryMb(): number {
+    // cgroup v2
+    const limitV2 = readNumber('/sys/fs/cgroup/memory.max');
+    const usageV2 = readNumber('/sys/fs/cgroup/memory.current');
+    if (limitV2 !== null && usageV2 !== null) {
+        return Math.max(0, (limitV2 - usageV2) / MB);
+    }
+
+    // cgroup v1 (unlimited shows up as a huge number)
+    const limitV1 = readNumber('/sys/fs/cgroup/memory/memory.limit_in_bytes');
+    const usageV1 = readNumber('/sys/fs/cgroup/memory/memory.usage_in_bytes');
+    if (limitV1 !== null && usageV1 !== null && limitV1 < os.totalmem()) {
+        return Math.max(0, (limitV1 - usageV1) / MB);
+    }
+
+    return os.freemem() / MB;
+}
+
+/**
+ * Resident memory of a process and all its descendants, in MB (Linux only)
+ * Chromium spreads tabs across renderer processes, so the browser pid alone undercounts
+ */
+export function getProcessTreeRssMb(rootPid: number): number | null {
+    let entries: string[];
+    try {
+        entries = fs.readdirSync('/proc').filter(name => /^\d+$/.test(name));
+    } catch {
+        return null;
+    }
+
+    const children: Map<number, number[]> = new Map();
+    const rssByPid: Map<number, number> = new Map();
+
+    for (const entry of entries) {
+        try {
+            const status = fs.readFileSync(`/proc/${entry}/status`, 'utf-8');
+            const ppid = parseInt(status.match(/^PPid:\s+(\d+)/m)?.[1] || '0', 10);
+            const rssKb = parseInt(status.match(/^VmRSS:\s+(\d+)/m)?.[1] || '0', 10);
+            const pid = parseInt(entry, 10);
+
+            rssByPid.set(pid, rssKb);
+            if (!children.has(ppid)) children.set(ppid, []);
+            children.get(ppid)!.push(pid);
+        } catch {
+            // Process exited while scanning
+        }
+    }
+
+    if (!rssByPid.has(rootPid)) return null;
+
+    let totalKb = 0;
+    const stack = [rootPid];
+    while (stack.length > 0) {
+        const pid = stack.pop()!;
+        totalKb += rssByPid.get(pid) || 0;
+        stack.push(...(children.get(pid) || []));
+    }
+
+    return totalKb / 1024;
+}
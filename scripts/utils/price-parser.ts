@@ -0,0 +1,263 @@
+/**
+ * Locale-aware price parsing shared by every strategy, adapter and importer
+ * Turns "$ 1.299.900", "MX$1,299.00", "R$ 1.299,90" or "US$ 12.99" into an amount,
+ * an ISO currency and how sure we are about both
+ */
+
+export type PriceConfidence = 'high' | 'medium' | 'low';
+
+export interface ParsedPrice {
+    raw: string | null;
+    amount: number | null;
+    currency: string | null;
+    confidence: PriceConfidence;
+}
+
+export interface PriceLocale {
+    /** BCP 47 tag, e.g. es-CO */
+    tag: string;
+    currency: string;
+    decimalSeparator: '.' | ',';
+    /** Digits after the decimal separator in everyday prices (0 for COP/CLP) */
+    fractionDigits: number;
+}
+
+export const PRICE_LOCALES: Record<string, PriceLocale> = {
+    'es-CO': { tag: 'es-CO', currency: 'COP', decimalSeparator: ',', fractionDigits: 0 },
+    'es-CL': { tag: 'es-CL', currency: 'CLP', decimalSeparator: ',', fractionDigits: 0 },
+    'es-PY': { tag: 'es-PY', currency: 'PYG', decimalSeparator: ',', fractionDigits: 0 },
+    'es-AR': { tag: 'es-AR', currency: 'ARS', decimalSeparator: ',', fractionDigits: 2 },
+    'es-UY': { tag: 'es-UY', currency: 'UYU', decimalSeparator: ',', fractionDigits: 2 },
+    'es-VE': { tag: 'es-VE', currency: 'VES', decimalSeparator: ',', fractionDigits: 2 },
+    'es-BO': { tag: 'es-BO', currency: 'BOB', decimalSeparator: ',', fractionDigits: 2 },
+    'es-CR': { tag: 'es-CR', currency: 'CRC', decimalSeparator: ',', fractionDigits: 2 },
+    'pt-BR': { tag: 'pt-BR', currency: 'BRL', decimalSeparator: ',', fractionDigits: 2 },
+    'es-MX': { tag: 'es-MX', currency: 'MXN', decimalSeparator: '.', fractionDigits: 2 },
+    'es-PE': { tag: 'es-PE', currency: 'PEN', decimalSeparator: '.', fractionDigits: 2 },
+    'es-EC': { tag: 'es-EC', currency: 'USD', decimalSeparator: '.', fractionDigits: 2 },
+    'es-PA': { tag: 'es-PA', currency: 'USD', decimalSeparator: '.', fractionDigits: 2 },
+    'es-DO': { tag: 'es-DO', currency: 'DOP', decimalSeparator: '.', fractionDigits: 2 },
+    'es-GT': { tag: 'es-GT', currency: 'GTQ', decimalSeparator: '.', fractionDigits: 2 },
+    'en-US': { tag: 'en-US', currency: 'USD', decimalSeparator: '.', fractionDigits: 2 },
+    'en-CA': { tag: 'en-CA', currency: 'CAD', decimalSeparator: '.', fractionDigits: 2 },
+    'en-GB': { tag: 'en-GB', currency: 'GBP', decimalSeparator: '.', fractionDigits: 2 },
+    'es-ES': { tag: 'es-ES', currency: 'EUR', decimalSeparator: ',', fractionDigits: 2 },
+    'de-DE': { tag: 'de-DE', currency: 'EUR', decimalSeparator: ',', fractionDigits: 2 },
+    'fr-FR': { tag: 'fr-FR', currency: 'EUR', decimalSeparator: ',', fractionDigits: 2 },
+    'it-IT': { tag: 'it-IT', currency: 'EUR', decimalSeparator: ',', fractionDigits: 2 },
+};
+
+// Country TLDs (checked as hostname suffixes, most specific first)
+const TLD_LOCALES: Array<[string, string]> = [
+    ['.com.co', 'es-CO'], ['.co', 'es-CO'],
+    ['.cl', 'es-CL'],
+    ['.com.py', 'es-PY'],
+    ['.com.ar', 'es-AR'],
+    ['.com.uy', 'es-UY'],
+    ['.com.ve', 'es-VE'],
+    ['.com.bo', 'es-BO'],
+    ['.co.cr', 'es-CR'],
+    ['.com.br', 'pt-BR'],
+    ['.com.mx', 'es-MX'], ['.mx', 'es-MX'],
+    ['.com.pe', 'es-PE'], ['.pe', 'es-PE'],
+    ['.com.ec', 'es-EC'],
+    ['.com.pa', 'es-PA'],
+    ['.com.do', 'es-DO'],
+    ['.com.gt', 'es-GT'],
+    ['.ca', 'en-CA'],
+    ['.co.uk', 'en-GB'],
+    ['.es', 'es-ES'],
+    ['.de', 'de-DE'],
+    ['.fr', 'fr-FR'],
+    ['.it', 'it-IT'],
+];
+
+// Stores on a generic .com that sell in one country
+const STORE_LOCALES: Record<string, string> = {
+    'exito.com': 'es-CO',
+    'carulla.com': 'es-CO',
+    'olimpica.com': 'es-CO',
+    'alkosto.com': 'es-CO',
+    'ktronix.com': 'es-CO',
+    'homecenter.com.co': 'es-CO',
+    'mercadolivre.com': 'pt-BR',
+};
+
+// Explicit currency markers; a bare "$" is resolved by the locale
+const CURRENCY_MARKERS: Array<[RegExp, string]> = [
+    [/US\$|U\$S|\bUSD\b/i, 'USD'],
+    [/R\$|\bBRL\b/i, 'BRL'],
+    [/MX\$|\bMXN\b/i, 'MXN'],
+    [/CA\$|\bC\$|\bCAD\b/i, 'CAD'],
+    [/COL?\$|\bCOP\b/i, 'COP'],
+    [/\bCLP\b/i, 'CLP'],
+    [/\bARS\b/i, 'ARS'],
+    [/\$U|\bUYU\b/i, 'UYU'],
+    [/S\/\.?|\bPEN\b/i, 'PEN'],
+    [/€|\bEUR\b/i, 'EUR'],
+    [/£|\bGBP\b/i, 'GBP'],
+];
+
+// Currencies written with "$"
+const DOLLAR_SIGN_CURRENCIES = ['USD', 'COP', 'MXN', 'CLP', 'ARS', 'UYU', 'CAD'];
+
+const NUMBER_PATTERN = /\d(?:[\d.,'\s]*\d)?/g;
+const SPACE_GROUPED = /^\d{1,3}(\s\d{3})+([.,]\d+)?$/;
+
+const CONFIDENCE_ORDER: PriceConfidence[] = ['high', 'medium', 'low'];
+
+function lower(current: PriceConfidence, to: PriceConfidence): PriceConfidence {
+    return CONFIDENCE_ORDER.indexOf(to) > CONFIDENCE_ORDER.indexOf(current) ? to : current;
+}
+
+/**
+ * Add a single-country store (used for declarative store definitions)
+ */
+export function registerStoreLocale(domain: string, tag: string): void {
+    if (!PRICE_LOCALES[tag]) throw new Error(`Unknown price locale: ${tag}`);
+    STORE_LOCALES[domain.toLowerCase().replace(/^www\./, '')] = tag;
+}
+
+/**
+ * Locale for a store hostname (country TLD, known .com stores, else en-US)
+ */
+export function getStoreLocale(hostname: string): PriceLocale {
+    const host = hostname.toLowerCase().replace(/^www\./, '');
+
+    for (const [domain, tag] of Object.entries(STORE_LOCALES)) {
+        if (host === domain || host.endsWith(`.${domain}`)) return PRICE_LOCALES[tag];
+    }
+    for (const [suffix, tag] of TLD_LOCALES) {
+        if (host.endsWith(suffix)) return PRICE_LOCALES[tag];
+    }
+    return PRICE_LOCALES['en-US'];
+}
+
+/**
+ * Locale for global stores that put the country in the path (/co/es/, /es_co/, /mx/),
+ * falling back to the hostname
+ */
+export function getUrlLocale(url: string): PriceLocale {
+    const urlObj = new URL(url);
+    const country = urlObj.pathname.match(/^\/(?:[a-z]{2}[_-])?([a-z]{2})(?:\/|$)/i)?.[1]?.toUpperCase();
+    const tag = country ? Object.keys(PRICE_LOCALES).find(t => t.endsWith(`-${country}`)) : undefined;
+    return tag ? PRICE_LOCALES[tag]! : getStoreLocale(urlObj.hostname);
+}
+
+function resolveLocale(locale: PriceLocale | string): PriceLocale {
+    if (typeof locale !== 'string') return locale;
+    if (PRICE_LOCALES[locale]) return PRICE_LOCALES[locale];
+    // Not a locale tag: treat it as a hostname or URL
+    try {
+        return getStoreLocale(new URL(locale).hostname);
+    } catch {
+        return getStoreLocale(locale);
+    }
+}
+
+/**
+ * Split a numeric token into its value, deciding which separator is the decimal one
+ */
+function parseNumber(token: string, locale: PriceLocale): { amount: number; confidence: PriceConfidence } | null {
+    let digits = token.replace(/'/g, '');
+    let confidence: PriceConfidence = 'high';
+
+    // "1 299 900": spaces as thousands separators
+    if (/\s/.test(digits)) {
+        if (!SPACE_GROUPED.test(digits)) return null;
+        digits = digits.replace(/\s/g, '');
+    }
+
+    const dots = (digits.match(/\./g) || []).length;
+    const commas = (digits.match(/,/g) || []).length;
+    let decimal: '.' | ',' | null = null;
+
+    if (dots > 0 && commas > 0) {
+        // Whichever comes last is the decimal separator
+        decimal = digits.lastIndexOf('.') > digits.lastIndexOf(',') ? '.' : ',';
+        if ((decimal === '.' ? dots : commas) > 1) return null;
+    } else if (dots + commas === 1) {
+        const separator = dots ? '.' : ',';
+        const after = digits.length - digits.indexOf(separator) - 1;
+
+        if (after === 3) {
+            // "1.299" / "1,299": a thousands group unless the locale says otherwise
+            if (separator === locale.decimalSeparator) confidence = 'medium';
+        } else {
+            decimal = separator;
+            if (after > 3) confidence = 'low';
+        }
+    }
+
+    const thousands = decimal === ',' ? '.' : ',';
+    const [intPart, fraction = ''] = (decimal ? digits.split(decimal) : [digits]) as [string, string?];
+    const groups = intPart.split(decimal ? thousands : /[.,]/);
+
+    // Thousands groups after the first must be exactly three digits
+    if (groups.slice(1).some(g => g.length !== 3)) confidence = 'low';
+
+    const amount = parseFloat(`${groups.join('')}${fraction ? `.${fraction}` : ''}`);
+    return isNaN(amount) ? null : { amount, confidence };
+}
+
+/**
+ * Parse a price as shown by a store
+ * @param raw - Price text ("$ 1.299.900", "1,299.00 MXN") or an already numeric value
+ * @param locale - Locale tag (es-CO), PriceLocale, or the store hostname/URL
+ * @param options.currency - Currency declared next to the price (JSON-LD priceCurrency, meta tags)
+ */
+export function parsePrice(
+    raw: string | number | null | undefined,
+    locale: PriceLocale | string,
+    options: { currency?: string | null } = {}
+): ParsedPrice {
+    const storeLocale = resolveLocale(locale);
+    const declared = options.currency?.toUpperCase() || null;
+
+    if (raw === null || raw === undefined || raw === '') {
+        return { raw: null, amount: null, currency: null, confidence: 'low' };
+    }
+
+    // Structured data (JSON-LD, APIs) is already a number
+    if (typeof raw === 'number') {
+        return {
+            raw: String(raw),
+            amount: isFinite(raw) ? raw : null,
+            currency: declared || storeLocale.currency,
+            confidence: declared ? 'high' : 'medium',
+        };
+    }
+
+    const text = raw.trim();
+    let confidence: PriceConfidence = 'high';
+
+    // Currency: declared > marker in the text > "$" in a peso/dollar locale > locale default
+    let currency = declared || CURRENCY_MARKERS.find(([pattern]) => pattern.test(text))?.[1] || null;
+    if (!currency) {
+        currency = storeLocale.currency;
+        if (!text.includes('$') || !DOLLAR_SIGN_CURRENCIES.includes(currency)) {
+            confidence = 'medium';
+        }
+    }
+
+    const tokens = text.match(NUMBER_PATTERN) || [];
+    if (tokens.length === 0) {
+        return { raw: text, amount: null, currency, confidence: 'low' };
+    }
+
+    // Several numbers ("12 cuotas de $ 10.825"): take the first but don't trust it
+    let parsed = parseNumber(tokens[0]!, storeLocale);
+    if (!parsed) {
+        parsed = parseNumber(tokens[0]!.split(/\s/)[0]!, storeLocale);
+        confidence = 'low';
+    }
+    if (tokens.length > 1) confidence = 'low';
+    if (!parsed) {
+        return { raw: text, amount: null, currency, confidence: 'low' };
+    }
+
+    confidence = lower(confidence, parsed.confidence);
+    if (parsed.amount <= 0) confidence = 'low';
+
+    return { raw: text, amount: parsed.amount, currency, confidence };
+}
@@ -16,6 +16,8 @@ export interface ProductWithPriority {
     original_url: string;
     normalized_url: string;
     title: string;
+    category?: string | null;
+    variant_key?: string | null;
     priority: TrackingPriority;
     last_tracked_at?: string;
     last_price_change_at?: string;
@@ -104,7 +106,7 @@ export async function getProductsToTrack(options: {
     // Query products (simplified - no joins)
     let query = supabase
         .from('products')
-        .select('id, merchant, original_url, normalized_url, title, last_tracked_at');
+        .select('id, merchant, original_url, normalized_url, title, category, variant_key, last_tracked_at');
 
     if (merchant) {
         query = query.eq('merchant', merchant);
@@ -138,6 +140,7 @@ export async function getProductsToTrack(options: {
                 .from('price_snapshots')
                 .select('created_at, price')
                 .eq('product_id', product.id)
+                .eq('needs_review', false)
                 .order('created_at', { ascending: false })
                 .limit(2);
 
@@ -172,6 +175,8 @@ export async function getProductsToTrack(options: {
         original_url: product.original_url,
         normalized_url: product.normalized_url,
         title: product.title,
+        category: product.category,
+        variant_key: product.variant_key,
         priority: calculatePriority(product),
         last_tracked_at: product.last_tracked_at,
         last_price_change_at: product.last_price_change_at,
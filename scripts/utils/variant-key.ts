@@ -0,0 +1,53 @@
+/**
+ * Product variant keys
+ * A variant key pins a product to the size/color/SKU the user chose, e.g. "color=01;size=m".
+ * It is stored in products.variant_key and is part of the product hash, so two sizes of the
+ * same page are two tracked products.
+ */
+
+export interface ProductVariant {
+    /** Store SKU of the exact variant */
+    sku?: string | null;
+    /** Color as the store identifies it in URLs (code) or shows it (name) */
+    color?: string | null;
+    size?: string | null;
+}
+
+const KEY_FIELDS: Array<keyof ProductVariant> = ['sku', 'color', 'size'];
+
+/**
+ * Comparable form of a variant value ("  Azul Marino " -> "azul marino")
+ */
+export function normalizeVariantValue(value: string | null | undefined): string | null {
+    const normalized = value?.toLowerCase().replace(/[;=]/g, ' ').replace(/\s+/g, ' ').trim();
+    return normalized ? normalized : null;
+}
+
+/**
+ * Variant key for a variant (null when it names nothing)
+ */
+export function buildVariantKey(variant: ProductVariant | null | undefined): string | null {
+    if (!variant) return null;
+
+    const parts = KEY_FIELDS
+        .map(field => [field, normalizeVariantValue(variant[field])] as const)
+        .filter(([, value]) => value !== null)
+        .map(([field, value]) => `${field}=${value}`);
+    return parts.length > 0 ? parts.join(';') : null;
+}
+
+/**
+ * Variant named by a key (null for products tracked without one)
+ */
+export function parseVariantKey(key: string | null | undefined): ProductVariant | null {
+    if (!key) return null;
+
+    const variant: ProductVariant = {};
+    for (const part of key.split(';')) {
+        const [field, value] = part.split('=');
+        if (KEY_FIELDS.includes(field as keyof ProductVariant) && value) {
+            variant[field as keyof ProductVariant] = value;
+        }
+    }
+    return Object.keys(variant).length > 0 ? variant : null;
+}
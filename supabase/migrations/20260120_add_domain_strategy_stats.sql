@@ -0,0 +1,20 @@
+-- Per-domain strategy learning for the tracking escalation chain
+-- DOMAIN_CONFIG only seeds the starting strategy; these stats take over once populated
+CREATE TABLE IF NOT EXISTS public.domain_strategy_stats (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    domain TEXT NOT NULL,
+    strategy TEXT NOT NULL,
+    successes INTEGER NOT NULL DEFAULT 0,
+    failures INTEGER NOT NULL DEFAULT 0,
+    success_rate NUMERIC NOT NULL DEFAULT 0,
+    last_success_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE(domain, strategy)
+);
+
+CREATE INDEX IF NOT EXISTS idx_domain_strategy_stats_domain ON public.domain_strategy_stats(domain);
+
+ALTER TABLE public.domain_strategy_stats ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all on domain_strategy_stats" ON public.domain_strategy_stats FOR ALL USING (true);
+
+COMMENT ON TABLE public.domain_strategy_stats IS 'Which tracking strategy works for each store domain (moving success rate)';
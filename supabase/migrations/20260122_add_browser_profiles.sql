@@ -0,0 +1,24 @@
+-- Persistent BROWSER_HARD sessions: one active profile (cookies, localStorage, UA, viewport) per store domain
+-- Retired profiles are kept (retired_at/retired_reason) to see how long sessions survive per store
+CREATE TABLE IF NOT EXISTS public.browser_profiles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    domain TEXT NOT NULL,
+    user_agent TEXT NOT NULL,
+    viewport JSONB NOT NULL,
+    cookies JSONB NOT NULL DEFAULT '[]'::jsonb,
+    local_storage JSONB NOT NULL DEFAULT '{}'::jsonb,
+    uses INTEGER NOT NULL DEFAULT 0,
+    blocks INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    retired_at TIMESTAMP WITH TIME ZONE,
+    retired_reason TEXT
+);
+
+-- At most one active profile per domain
+CREATE UNIQUE INDEX IF NOT EXISTS idx_browser_profiles_active_domain ON public.browser_profiles(domain) WHERE retired_at IS NULL;
+
+ALTER TABLE public.browser_profiles ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all on browser_profiles" ON public.browser_profiles FOR ALL USING (true);
+
+COMMENT ON TABLE public.browser_profiles IS 'Per-store browser sessions reused across tracking runs';
@@ -0,0 +1,11 @@
+-- Stock and seller details captured with each price snapshot
+ALTER TABLE public.price_snapshots
+ADD COLUMN IF NOT EXISTS availability TEXT,
+ADD COLUMN IF NOT EXISTS stock_hint TEXT,
+ADD COLUMN IF NOT EXISTS seller_id TEXT,
+ADD COLUMN IF NOT EXISTS seller_name TEXT,
+ADD COLUMN IF NOT EXISTS marketplace_flags TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.price_snapshots.availability IS 'in_stock, out_of_stock, preorder or unknown (NULL = not captured)';
+COMMENT ON COLUMN public.price_snapshots.stock_hint IS 'Low-stock text shown by the store, e.g. "Últimas unidades"';
+COMMENT ON COLUMN public.price_snapshots.marketplace_flags IS 'Marketplace badges: full (fulfilled by marketplace), official_store';
@@ -0,0 +1,11 @@
+-- Promotional context per price snapshot: compare list_price against past prices to tell real discounts from inflated ones
+ALTER TABLE public.price_snapshots
+ADD COLUMN IF NOT EXISTS list_price NUMERIC,
+ADD COLUMN IF NOT EXISTS discount_percent NUMERIC,
+ADD COLUMN IF NOT EXISTS installments JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS conditional_prices JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.price_snapshots.list_price IS 'Crossed-out "before" price shown by the store';
+COMMENT ON COLUMN public.price_snapshots.discount_percent IS 'Advertised discount (computed from list_price when not shown)';
+COMMENT ON COLUMN public.price_snapshots.installments IS '[{count, amount, interestFree}] installment plans';
+COMMENT ON COLUMN public.price_snapshots.conditional_prices IS '[{amount, condition}] prices tied to a store card or membership';
@@ -0,0 +1,12 @@
+-- Extraction confidence per price snapshot: low-confidence reads are kept for review instead of counting as price changes
+ALTER TABLE public.price_snapshots
+ADD COLUMN IF NOT EXISTS confidence NUMERIC,
+ADD COLUMN IF NOT EXISTS needs_review BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS price_candidates JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Review queue
+CREATE INDEX IF NOT EXISTS idx_price_snapshots_needs_review ON public.price_snapshots(created_at DESC) WHERE needs_review;
+
+COMMENT ON COLUMN public.price_snapshots.confidence IS 'Agreement between extracted price candidates (0-1)';
+COMMENT ON COLUMN public.price_snapshots.needs_review IS 'Low-confidence read: not a confirmed price, ignored when detecting changes';
+COMMENT ON COLUMN public.price_snapshots.price_candidates IS '[{source, amount, currency, confidence}] every price the extractors found';
@@ -0,0 +1,30 @@
+-- Price sanity guard: product categories for plausible price bounds, and a quarantine for
+-- suspicious prices that a re-fetch did not confirm (kept out of price_snapshots)
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS category TEXT;
+
+CREATE TABLE IF NOT EXISTS public.price_quarantine (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    price NUMERIC NOT NULL,
+    currency TEXT NOT NULL,
+    previous_price NUMERIC,
+    reason TEXT NOT NULL,
+    strategy_used TEXT,
+    confidence NUMERIC,
+    price_candidates JSONB NOT NULL DEFAULT '[]'::jsonb,
+    refetch_price NUMERIC,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    resolution TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_quarantine_product ON public.price_quarantine(product_id);
+CREATE INDEX IF NOT EXISTS idx_price_quarantine_open ON public.price_quarantine(created_at DESC) WHERE resolved_at IS NULL;
+
+ALTER TABLE public.price_quarantine ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all on price_quarantine" ON public.price_quarantine FOR ALL USING (true);
+
+COMMENT ON COLUMN public.products.category IS 'Product category (phones, books, ...) used for plausible price bounds';
+COMMENT ON TABLE public.price_quarantine IS 'Suspicious prices held back from price_snapshots until reviewed';
+COMMENT ON COLUMN public.price_quarantine.resolution IS 'accepted (copied to price_snapshots) or rejected';
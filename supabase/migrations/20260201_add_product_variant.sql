@@ -0,0 +1,5 @@
+-- Size/color variant tracking: which variant of a listing a product row tracks
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS variant_key TEXT;
+
+COMMENT ON COLUMN public.products.variant_key IS 'Tracked variant as "sku=..;color=..;size=.." (lowercased, parts optional); null tracks the listing''s default variant. Part of product_hash when set';
@@ -0,0 +1,39 @@
+-- Adapter health: per-run extraction rates, so selector drift stands out against earlier runs
+CREATE TABLE IF NOT EXISTS public.adapter_health_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    run_id TEXT NOT NULL,
+    adapter TEXT NOT NULL,
+    domain TEXT NOT NULL,
+    pages INTEGER NOT NULL DEFAULT 0,
+    extracted INTEGER NOT NULL DEFAULT 0,
+    success_rate NUMERIC NOT NULL DEFAULT 0,
+    selector_stats JSONB NOT NULL DEFAULT '{}'::jsonb,
+    drift_detected BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_adapter_health_runs_adapter_domain ON public.adapter_health_runs(adapter, domain, created_at DESC);
+
+ALTER TABLE public.adapter_health_runs ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all on adapter_health_runs" ON public.adapter_health_runs FOR ALL USING (true);
+
+COMMENT ON TABLE public.adapter_health_runs IS 'Per run, adapter and domain: loaded pages, how many yielded a price, and how often each selector matched';
+COMMENT ON COLUMN public.adapter_health_runs.selector_stats IS 'Selector -> {"matched": n, "probed": n}';
+
+-- Domains paused after drift (TRACKING_PAUSE_ON_DRIFT=true); set resumed_at to track them again
+CREATE TABLE IF NOT EXISTS public.tracking_domain_pauses (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    domain TEXT NOT NULL,
+    adapter TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    failing_selectors TEXT[] NOT NULL DEFAULT '{}',
+    paused_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    resumed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_tracking_domain_pauses_active ON public.tracking_domain_pauses(domain) WHERE resumed_at IS NULL;
+
+ALTER TABLE public.tracking_domain_pauses ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all on tracking_domain_pauses" ON public.tracking_domain_pauses FOR ALL USING (true);
+
+COMMENT ON TABLE public.tracking_domain_pauses IS 'Domains whose products are deferred until the adapter is fixed (resumed_at IS NULL = paused)';
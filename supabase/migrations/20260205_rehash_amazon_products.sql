@@ -0,0 +1,40 @@
+-- Amazon URLs now normalize to /dp/<ASIN> (scripts/utils/db.ts normalizeUrl), which changes product_hash.
+-- Rehash existing Amazon rows the same way so re-seeding their links matches them instead of inserting duplicates.
+-- When several rows share an ASIN (slug or ref path differed), only the oldest takes the new hash; the others keep theirs.
+WITH canonical AS (
+    SELECT
+        p.id,
+        p.created_at,
+        p.product_hash,
+        m[1] || '/dp/' || upper(m[2]) AS new_url,
+        p.merchant,
+        p.variant_key
+    FROM public.products p,
+        regexp_match(p.normalized_url, '^(https?://[^/]*amazon[^/]*)/(?:[^?#]*/)?(?:dp|gp/product|gp/aw/d)/([a-z0-9]{10})(?:[/?#]|$)', 'i') AS m
+    WHERE m IS NOT NULL
+),
+hashed AS (
+    SELECT
+        id,
+        created_at,
+        product_hash,
+        new_url,
+        -- Same input as generateProductHash: merchant:url, plus #variant_key when set
+        encode(sha256(convert_to(merchant || ':' || new_url || coalesce('#' || nullif(variant_key, ''), ''), 'UTF8')), 'hex') AS new_hash
+    FROM canonical
+),
+winners AS (
+    SELECT DISTINCT ON (new_hash) id, product_hash, new_url, new_hash
+    FROM hashed
+    ORDER BY new_hash, created_at, id
+)
+UPDATE public.products p
+SET normalized_url = w.new_url,
+    product_hash = w.new_hash
+FROM winners w
+WHERE p.id = w.id
+  AND w.product_hash <> w.new_hash
+  AND NOT EXISTS (
+      SELECT 1 FROM public.products other
+      WHERE other.product_hash = w.new_hash AND other.id <> w.id
+  );
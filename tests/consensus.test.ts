@@ -0,0 +1,91 @@
+/**
+ * Price consensus: grouping of agreeing candidates, the tie-break, and the score below which
+ * a result needs review
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { REVIEW_THRESHOLD, resolvePriceConsensus, toCandidate } from '../scripts/tracking/consensus.js';
+import { PriceCandidate, PriceSource } from '../scripts/tracking/types.js';
+import { PriceConfidence } from '../scripts/utils/price-parser.js';
+
+function candidate(source: PriceSource, amount: number, confidence: PriceConfidence = 'high', currency: string | null = 'COP'): PriceCandidate {
+    return { source, amount, currency, confidence };
+}
+
+test('a single read scores by its source and how cleanly it parsed', () => {
+    assert.deepEqual(resolvePriceConsensus([candidate('json-ld', 249900)]), {
+        winner: candidate('json-ld', 249900),
+        score: 0.9,
+        needsReview: false,
+    });
+    assert.equal(resolvePriceConsensus([candidate('dom', 249900)]).score, 0.6);
+    assert.equal(resolvePriceConsensus([candidate('dom', 249900, 'medium')]).score, 0.36);
+});
+
+test('reads within 1% of each other are one price, reinforcing each other', () => {
+    const result = resolvePriceConsensus([candidate('dom', 250000), candidate('json-ld', 249900), candidate('meta', 249900)]);
+
+    // The heaviest read of the group wins: json-ld over dom and meta
+    assert.deepEqual(result.winner, candidate('json-ld', 249900));
+    // 1 - (1 - 0.6)(1 - 0.9)(1 - 0.7)
+    assert.equal(result.score, 0.99);
+    assert.equal(result.needsReview, false);
+});
+
+test('the same amount in two currencies is two prices', () => {
+    const result = resolvePriceConsensus([candidate('json-ld', 100, 'high', 'USD'), candidate('meta', 100, 'high', 'COP')]);
+
+    assert.equal(result.winner?.currency, 'USD');
+    // 0.9 reliability times 0.9 / 1.6 of the evidence
+    assert.equal(result.score, 0.51);
+});
+
+test('the heaviest group wins a disagreement, and the loser lowers the score', () => {
+    // Cents read as thousands in the DOM, against the structured price
+    const result = resolvePriceConsensus([candidate('dom', 1299), candidate('json-ld', 1299900)]);
+
+    assert.equal(result.winner?.amount, 1299900);
+    assert.equal(result.score, 0.54);
+    assert.equal(result.needsReview, false);
+
+    // Two weaker reads that agree outweigh a stronger lone one
+    const outvoted = resolvePriceConsensus([candidate('json-ld', 1299900), candidate('dom', 1299), candidate('meta', 1299)]);
+    assert.equal(outvoted.winner?.amount, 1299);
+    assert.equal(outvoted.winner?.source, 'meta');
+});
+
+test('ties go to the group listed first', () => {
+    const state = candidate('state', 99900);
+    const microdata = candidate('microdata', 129900);
+
+    assert.equal(resolvePriceConsensus([state, microdata]).winner, state);
+    assert.equal(resolvePriceConsensus([microdata, state]).winner, microdata);
+});
+
+test(`results scoring under ${REVIEW_THRESHOLD} need review`, () => {
+    // A lone read parsed without its currency
+    assert.equal(resolvePriceConsensus([candidate('state', 99900, 'medium')]).needsReview, true);
+    // Two similar-weight sources that disagree
+    const split = resolvePriceConsensus([candidate('meta', 99900), candidate('dom', 9990)]);
+    assert.equal(split.winner?.source, 'meta');
+    assert.equal(split.score, 0.38);
+    assert.equal(split.needsReview, true);
+    // A state tie is half the evidence at best
+    assert.equal(resolvePriceConsensus([candidate('state', 99900), candidate('microdata', 129900)]).needsReview, true);
+});
+
+test('no usable candidate is no winner, not a review', () => {
+    assert.deepEqual(resolvePriceConsensus([]), { winner: null, score: 0, needsReview: false });
+    assert.deepEqual(resolvePriceConsensus([candidate('dom', 0)]), { winner: null, score: 0, needsReview: false });
+});
+
+test('builds candidates only from parsed, positive prices', () => {
+    assert.deepEqual(
+        toCandidate('meta', { raw: '$ 249.900', amount: 249900, currency: 'COP', confidence: 'high' }),
+        candidate('meta', 249900)
+    );
+    assert.equal(toCandidate('meta', { raw: 'Agotado', amount: null, currency: null, confidence: 'low' }), null);
+    assert.equal(toCandidate('meta', { raw: '0', amount: 0, currency: 'COP', confidence: 'high' }), null);
+    assert.equal(toCandidate('meta', null), null);
+});
@@ -0,0 +1,65 @@
+/**
+ * Falabella pages (tests/fixtures/falabella) replayed through the adapter: variant pick from
+ * __NEXT_DATA__, event/internet/normal prices and the CMR card price
+ */
+
+import { test, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { listFixtureProducts, trackFromPageFixture } from '../scripts/tracking/fixtures.js';
+import { ProductToTrack, TrackingResult } from '../scripts/tracking/types.js';
+
+mock.method(console, 'log', () => {});
+
+before(() => {
+    process.env.TRACKING_FIXTURES_DIR = path.resolve('tests/fixtures/falabella');
+});
+
+function fixtureProduct(productId: string): ProductToTrack {
+    const product = listFixtureProducts().find(p => p.id === productId);
+    assert.ok(product, `no fixture for ${productId}`);
+    return product;
+}
+
+function track(product: ProductToTrack): Promise<TrackingResult> {
+    return trackFromPageFixture(product, 'BROWSER_LIGHT');
+}
+
+test('CO: prices the variant in the URL at its event price, with the CMR price as conditional', async () => {
+    const result = await track(fixtureProduct('falabella-co-sony'));
+
+    assert.equal(result.success, true);
+    assert.equal(result.price, 1249900);
+    assert.equal(result.currency, 'COP');
+    assert.equal(result.priceDetails?.listPrice, 1899900);
+    assert.equal(result.priceDetails?.discountPercent, 34);
+    assert.deepEqual(result.priceDetails?.conditionalPrices, [{ amount: 1199900, condition: 'CMR' }]);
+    assert.deepEqual(result.listing?.seller, { id: 'FALABELLA_COLOMBIA', name: 'Falabella' });
+});
+
+test('CL: prices the page\'s selected variant at its internet price', async () => {
+    const result = await track(fixtureProduct('falabella-cl-lg'));
+
+    assert.equal(result.success, true);
+    assert.equal(result.price, 349990);
+    assert.equal(result.currency, 'CLP');
+    assert.equal(result.priceDetails?.listPrice, 449990);
+    assert.deepEqual(result.priceDetails?.conditionalPrices, []);
+    assert.equal(result.listing?.availability, 'in_stock');
+});
+
+test('PE: prices the tracked variant, not the one the page selected', async () => {
+    const product = fixtureProduct('falabella-pe-adidas');
+
+    const tracked = await track(product);
+    assert.equal(tracked.success, true);
+    assert.equal(tracked.price, 199.9);
+    assert.equal(tracked.currency, 'PEN');
+    assert.equal(tracked.priceDetails?.listPrice, 249.9);
+    assert.deepEqual(tracked.priceDetails?.conditionalPrices, [{ amount: 179.9, condition: 'CMR' }]);
+
+    // Without a variant key the selected size is priced
+    const selected = await track({ ...product, variant_key: null });
+    assert.equal(selected.price, 219.9);
+    assert.deepEqual(selected.priceDetails?.conditionalPrices, []);
+});
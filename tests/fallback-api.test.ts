@@ -0,0 +1,123 @@
+/**
+ * FALLBACK_API against a local stand-in for the MercadoLibre API (MERCADOLIBRE_API_URL)
+ */
+
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import type { FallbackApiStrategy as FallbackApiStrategyType } from '../scripts/tracking/strategies/fallback-api.js';
+import { TrackingErrorCode, ProductToTrack } from '../scripts/tracking/types.js';
+
+const ITEMS: Record<string, object> = {
+    MCO111: {
+        id: 'MCO111', title: 'Audífonos', price: 129900, original_price: 149900, currency_id: 'COP',
+        status: 'active', available_quantity: 5, seller_id: 42, official_store_id: 7,
+        shipping: { logistic_type: 'fulfillment' }, permalink: '',
+    },
+    MCO222: {
+        id: 'MCO222', title: 'Pausado', price: 50000, currency_id: 'COP', status: 'paused', permalink: '',
+    },
+};
+
+const PRODUCTS: Record<string, object> = {
+    MCO19615370: {
+        id: 'MCO19615370', name: 'Celular', status: 'active',
+        buy_box_winner: { item_id: 'MCO333', price: 899900, currency_id: 'COP', seller_id: 9 },
+    },
+};
+
+const STATUS: Record<string, number> = { MCO403: 403, MCO429: 429 };
+
+const requests: string[] = [];
+let server: http.Server;
+let strategy: FallbackApiStrategyType;
+
+before(async () => {
+    // Strategy progress logs aren't part of the test output
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+
+    server = http.createServer((req, res) => {
+        requests.push(req.url!);
+        const [, resource, id] = req.url!.split('/');
+        const body = resource === 'items' ? ITEMS[id!] : resource === 'products' ? PRODUCTS[id!] : undefined;
+        const status = STATUS[id!] || (body ? 200 : 404);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body || { message: 'not_found', status }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    process.env.MERCADOLIBRE_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    // The API base URL is read when the module loads
+    const { FallbackApiStrategy } = await import('../scripts/tracking/strategies/fallback-api.js');
+    strategy = new FallbackApiStrategy();
+});
+
+after(() => {
+    server.close();
+});
+
+function product(url: string): ProductToTrack {
+    return { id: 'p1', merchant: 'mercadolibre', original_url: url, title: 'Test product' };
+}
+
+test('prices an active listing with its list price, seller and flags', async () => {
+    const result = await strategy.track(product('https://articulo.mercadolibre.com.co/MCO-111-audifonos-_JM'));
+
+    assert.equal(result.success, true);
+    assert.equal(result.price, 129900);
+    assert.equal(result.currency, 'COP');
+    assert.equal(result.priceDetails?.listPrice, 149900);
+    assert.equal(result.confidence, 1);
+    assert.deepEqual(result.listing?.seller, { id: '42', name: null });
+    assert.deepEqual(result.listing?.flags, ['full', 'official_store']);
+});
+
+test('prices a catalog product from its buy box winner', async () => {
+    const result = await strategy.track(product('https://www.mercadolibre.com.co/celular/p/MCO19615370'));
+
+    assert.equal(result.success, true);
+    assert.equal(result.price, 899900);
+    assert.ok(requests.includes('/products/MCO19615370'));
+});
+
+test('reports paused listings as unavailable', async () => {
+    const result = await strategy.track(product('https://articulo.mercadolibre.com.co/MCO-222-pausado-_JM'));
+
+    assert.equal(result.success, false);
+    assert.equal(result.errorCode, TrackingErrorCode.PRODUCT_UNAVAILABLE);
+    assert.equal(result.listing?.availability, 'out_of_stock');
+});
+
+test('maps a 404 to NOT_FOUND_404', async () => {
+    const result = await strategy.track(product('https://articulo.mercadolibre.com.co/MCO-404-borrado-_JM'));
+
+    assert.equal(result.success, false);
+    assert.equal(result.errorCode, TrackingErrorCode.NOT_FOUND_404);
+    assert.equal(result.httpStatus, 404);
+});
+
+test('maps 403 and 429 like a page response', async () => {
+    const blocked = await strategy.track(product('https://articulo.mercadolibre.com.co/MCO-403-bloqueado-_JM'));
+    assert.equal(blocked.errorCode, TrackingErrorCode.BOT_BLOCKED);
+    assert.equal(blocked.httpStatus, 403);
+
+    const limited = await strategy.track(product('https://articulo.mercadolibre.com.co/MCO-429-limitado-_JM'));
+    assert.equal(limited.errorCode, TrackingErrorCode.RATE_LIMITED);
+    assert.equal(limited.httpStatus, 429);
+});
+
+test('reports a URL without an item id as unsupported, without calling the API', async () => {
+    const before = requests.length;
+    const result = await strategy.track(product('https://www.mercadolibre.com.co/ofertas'));
+
+    assert.equal(result.success, false);
+    assert.equal(result.errorCode, TrackingErrorCode.UNSUPPORTED_STORE);
+    assert.equal(requests.length, before);
+});
+
+test('only supports hosts with a marketplace API', () => {
+    assert.equal(strategy.supports(new URL('https://articulo.mercadolibre.com.co/MCO-111-audifonos-_JM')), true);
+    assert.equal(strategy.supports(new URL('https://www.amazon.com/dp/B0TEST1234')), false);
+});
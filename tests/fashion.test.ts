@@ -0,0 +1,119 @@
+/**
+ * Zara, H&M, Nike and Adidas pages (tests/fixtures/fashion) replayed through their adapters:
+ * the tracked size/color, and the fallbacks when the store no longer lists it
+ */
+
+import { test, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { listFixtureProducts, trackFromPageFixture } from '../scripts/tracking/fixtures.js';
+import { TrackingResult } from '../scripts/tracking/types.js';
+
+mock.method(console, 'log', () => {});
+
+before(() => {
+    process.env.TRACKING_FIXTURES_DIR = path.resolve('tests/fixtures/fashion');
+});
+
+async function track(productId: string, variantKey: string | null = null): Promise<TrackingResult> {
+    const product = listFixtureProducts().find(p => p.id === productId);
+    assert.ok(product, `no fixture for ${productId}`);
+    return trackFromPageFixture({ ...product, variant_key: variantKey }, 'BROWSER_LIGHT');
+}
+
+test("Zara: without a variant key, prices the URL's color at its first size in stock", async () => {
+    const result = await track('zara-co-camisa');
+
+    assert.equal(result.success, true);
+    assert.equal(result.price, 199900);
+    assert.equal(result.currency, 'COP');
+    assert.equal(result.listing?.availability, 'in_stock');
+    // The page's JSON-LD describes this same size, so it backs the price
+    assert.deepEqual(result.candidates?.map(c => c.source), ['state', 'json-ld']);
+    assert.equal(result.needsReview, false);
+});
+
+test("Zara: prices the key's color (by name) and size, with its crossed-out price", async () => {
+    const result = await track('zara-co-camisa', 'color=azul;size=m');
+
+    assert.equal(result.price, 179900);
+    assert.equal(result.priceDetails?.listPrice, 199900);
+    assert.equal(result.listing?.availability, 'in_stock');
+    assert.deepEqual(result.candidates?.map(c => c.source), ['state']);
+    assert.equal(result.needsReview, false);
+});
+
+test('Zara: a low-stock size is in stock with a hint, a sold-out one is out of stock', async () => {
+    const low = await track('zara-co-camisa', 'color=364011532;size=m');
+    assert.equal(low.listing?.availability, 'in_stock');
+    assert.equal(low.listing?.stockHint, 'Pocas unidades');
+
+    const soldOut = await track('zara-co-camisa', 'size=l');
+    assert.equal(soldOut.price, 199900);
+    assert.equal(soldOut.listing?.availability, 'out_of_stock');
+});
+
+test("Zara: a size the store no longer lists is out of stock at its color's price", async () => {
+    const result = await track('zara-co-camisa', 'color=364011532;size=xl');
+
+    assert.equal(result.price, 199900);
+    assert.equal(result.listing?.availability, 'out_of_stock');
+});
+
+test("Zara: a color the store no longer lists is out of stock at the page's price", async () => {
+    const result = await track('zara-co-camisa', 'color=verde;size=s');
+
+    assert.equal(result.price, 199900);
+    assert.equal(result.listing?.availability, 'out_of_stock');
+});
+
+test('H&M: prices the article in the URL, and another color at its sale price', async () => {
+    const article = await track('hm-co-camiseta');
+    assert.equal(article.price, 89900);
+    assert.equal(article.currency, 'COP');
+    assert.equal(article.listing?.availability, 'in_stock');
+
+    const sale = await track('hm-co-camiseta', 'color=1234567002;size=m');
+    assert.equal(sale.price, 59900);
+    assert.equal(sale.priceDetails?.listPrice, 89900);
+    assert.equal(sale.needsReview, false);
+});
+
+test('H&M: an unavailable size and an unlisted size are both out of stock', async () => {
+    const unavailable = await track('hm-co-camiseta', 'color=1234567001;size=m');
+    assert.equal(unavailable.price, 89900);
+    assert.equal(unavailable.listing?.availability, 'out_of_stock');
+
+    const unlisted = await track('hm-co-camiseta', 'color=1234567001;size=xxl');
+    assert.equal(unlisted.price, 89900);
+    assert.equal(unlisted.listing?.availability, 'out_of_stock');
+});
+
+test("Nike: prices the style-color in the URL, and a size on the other colorway that has it", async () => {
+    const url = await track('nike-co-af1');
+    assert.equal(url.price, 549950);
+    assert.equal(url.currency, 'COP');
+
+    // US 10 is sold out in white, so the key's size alone lands on the black colorway
+    const size = await track('nike-co-af1', 'size=us 10');
+    assert.equal(size.price, 439960);
+    assert.equal(size.priceDetails?.listPrice, 549950);
+    assert.equal(size.listing?.availability, 'in_stock');
+});
+
+test('Adidas: prices the article in the URL, another article on sale, and a sold-out SKU', async () => {
+    const article = await track('adidas-co-samba');
+    assert.equal(article.price, 599950);
+    assert.equal(article.currency, 'COP');
+    assert.equal(article.needsReview, false);
+
+    const sale = await track('adidas-co-samba', 'color=b75807;size=7');
+    assert.equal(sale.price, 479960);
+    assert.equal(sale.priceDetails?.listPrice, 599950);
+
+    const lowStock = await track('adidas-co-samba', 'sku=b75806_610');
+    assert.equal(lowStock.listing?.stockHint, '2 disponibles');
+
+    const soldOut = await track('adidas-co-samba', 'sku=b75806_620');
+    assert.equal(soldOut.listing?.availability, 'out_of_stock');
+});
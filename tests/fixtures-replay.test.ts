@@ -0,0 +1,55 @@
+/**
+ * Replays the recorded fixtures in tests/fixtures/tracking through the full strategy chain
+ */
+
+import { test, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { StrategyManager } from '../scripts/tracking/manager.js';
+import { listFixtureProducts } from '../scripts/tracking/fixtures.js';
+
+mock.method(console, 'log', () => {});
+mock.method(console, 'error', () => {});
+mock.method(console, 'warn', () => {});
+
+// Product id -> what the store showed when the page was recorded
+const EXPECTED: Record<string, { price: number; currency: string; listPrice?: number }> = {
+    'fixture-ml-co': { price: 129900, currency: 'COP', listPrice: 149900 },
+    'fixture-ml-cl': { price: 24990, currency: 'CLP', listPrice: 29990 },
+    'fixture-ml-mx': { price: 1299.5, currency: 'MXN', listPrice: 1499.9 },
+    'fixture-ml-br': { price: 1299.9, currency: 'BRL' },
+    'fixture-amazon-us': { price: 49.99, currency: 'USD' },
+    'fixture-amazon-de': { price: 1249.99, currency: 'EUR' },
+    'fixture-generic': { price: 499, currency: 'USD' },
+};
+
+before(() => {
+    process.env.TRACKING_FIXTURES = 'replay';
+    process.env.TRACKING_FIXTURES_DIR = path.resolve('tests/fixtures/tracking');
+});
+
+test('every recorded product has an expected price', () => {
+    const ids = listFixtureProducts().map(p => p.id).sort();
+    assert.deepEqual(ids, Object.keys(EXPECTED).sort());
+});
+
+test('replayed fixtures extract the recorded price and currency', async () => {
+    const manager = new StrategyManager({ offline: true });
+    await manager.init();
+
+    try {
+        for (const product of listFixtureProducts()) {
+            const result = await manager.trackProduct(product);
+            const expected = EXPECTED[product.id];
+
+            assert.equal(result.success, true, `${product.id}: ${result.errorCode} ${result.error}`);
+            assert.equal(result.price, expected.price, product.id);
+            assert.equal(result.currency, expected.currency, product.id);
+            if (expected.listPrice !== undefined) {
+                assert.equal(result.priceDetails?.listPrice, expected.listPrice, `${product.id} list price`);
+            }
+        }
+    } finally {
+        await manager.closeAll();
+    }
+});
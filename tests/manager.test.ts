@@ -0,0 +1,122 @@
+/**
+ * StrategyManager chain building and failure reporting, with stand-in strategies
+ */
+
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { StrategyManager, findDomainConfig } from '../scripts/tracking/manager.js';
+import { TrackingStrategy, TrackingResult, TrackingErrorCode, ProductToTrack, StrategyType } from '../scripts/tracking/types.js';
+
+mock.method(console, 'log', () => {});
+
+function product(url: string): ProductToTrack {
+    return { id: 'p1', merchant: 'test', original_url: url, title: 'Test product' };
+}
+
+/**
+ * Strategy that answers with the given failure codes, in order (then success)
+ */
+function fakeStrategy(name: StrategyType, codes: TrackingErrorCode[]): TrackingStrategy & { calls: number } {
+    return {
+        name,
+        calls: 0,
+        async track(p): Promise<TrackingResult> {
+            const code = codes[this.calls++];
+            return code
+                ? { productId: p.id, success: false, error: code, errorCode: code, strategyUsed: name }
+                : { productId: p.id, success: true, price: 1000, currency: 'COP', strategyUsed: name };
+        },
+    };
+}
+
+function managerWith(strategies: TrackingStrategy[]): StrategyManager {
+    return new StrategyManager({
+        proxies: [],
+        retryPolicy: { maxAttempts: 1 },
+        strategies: Object.fromEntries(strategies.map(strategy => [strategy.name, strategy])),
+    });
+}
+
+test('leaves FALLBACK_API out of the chain for stores it has no API for', () => {
+    const manager = new StrategyManager({ proxies: [] });
+
+    const amazon = manager.getStrategyChain(product('https://www.amazon.com/dp/B0TEST1234')).map(s => s.name);
+    assert.deepEqual(amazon, ['BROWSER_HARD']);
+
+    const mercadoLibre = manager.getStrategyChain(product('https://articulo.mercadolibre.com.co/MCO-111-x-_JM')).map(s => s.name);
+    assert.deepEqual(mercadoLibre, ['BROWSER_HARD', 'FALLBACK_API']);
+});
+
+test('matches domain config on the host or its subdomains, not on any host containing the key', () => {
+    assert.equal(findDomainConfig('hm.com')?.key, 'hm.com');
+    assert.equal(findDomainConfig('www2.hm.com')?.key, 'hm.com');
+    assert.equal(findDomainConfig('articulo.mercadolibre.com.co')?.key, 'mercadolibre.com.co');
+    assert.equal(findDomainConfig('amazon.com.mx')?.key, 'amazon.com.mx');
+    assert.equal(findDomainConfig('bohm.com'), null);
+    assert.equal(findDomainConfig('ohm.com'), null);
+    assert.equal(findDomainConfig('notamazon.com'), null);
+});
+
+test('reports the earlier failure when the last strategy cannot serve the URL', async () => {
+    const hard = fakeStrategy('BROWSER_HARD', [TrackingErrorCode.PRICE_NOT_FOUND]);
+    const api = fakeStrategy('FALLBACK_API', [TrackingErrorCode.UNSUPPORTED_STORE]);
+    const manager = managerWith([hard, api]);
+
+    const result = await manager.trackProduct(product('https://www.mercadolibre.com.co/ofertas'));
+
+    assert.equal(api.calls, 1);
+    assert.equal(result.errorCode, TrackingErrorCode.PRICE_NOT_FOUND);
+    assert.equal(result.strategyUsed, 'BROWSER_HARD');
+});
+
+test('opens the circuit after enough blocked products, not escalated attempts', async () => {
+    // Falabella starts at BROWSER_LIGHT; both browser tiers are blocked every time
+    const light = fakeStrategy('BROWSER_LIGHT', Array(10).fill(TrackingErrorCode.BOT_BLOCKED));
+    const hard = fakeStrategy('BROWSER_HARD', Array(10).fill(TrackingErrorCode.BOT_BLOCKED));
+    const manager = new StrategyManager({
+        proxies: [],
+        retryPolicy: { maxAttempts: 1 },
+        circuitBreakerThreshold: 3,
+        strategies: { BROWSER_LIGHT: light, BROWSER_HARD: hard },
+    });
+    mock.method(console, 'warn', () => {});
+
+    // Each product is blocked on both tiers, but only counts once
+    const url = 'https://www.falabella.com.co/falabella-co/product/123/x/123';
+    for (let i = 0; i < 3; i++) {
+        const blocked = await manager.trackProduct(product(url));
+        assert.equal(blocked.errorCode, TrackingErrorCode.BOT_BLOCKED);
+    }
+    assert.equal(hard.calls, 3);
+
+    const fourth = await manager.trackProduct(product(url));
+    assert.equal(fourth.errorCode, TrackingErrorCode.CIRCUIT_OPEN);
+    assert.equal(fourth.deferred, true);
+    assert.equal(light.calls, 3);
+});
+
+test('confirms a suspicious price only through an independent re-fetch', async () => {
+    const reread = (name: StrategyType, adapterId?: string): TrackingStrategy & { calls: number } => ({
+        name,
+        calls: 0,
+        async track(p): Promise<TrackingResult> {
+            this.calls++;
+            const source = adapterId ? 'dom' : 'api';
+            return { productId: p.id, success: true, price: 1299, currency: 'COP', adapterId, candidates: [{ source, amount: 1299, currency: 'COP', confidence: 'high' }], strategyUsed: name };
+        },
+    });
+    const hard = reread('BROWSER_HARD', 'mercadolibre');
+    const api = reread('FALLBACK_API');
+    const manager = managerWith([hard, api]);
+    const url = 'https://articulo.mercadolibre.com.co/MCO-111-x-_JM';
+    const suspicious: TrackingResult = {
+        productId: 'p1', success: true, price: 1299, currency: 'COP', adapterId: 'mercadolibre',
+        candidates: [{ source: 'dom', amount: 1299, currency: 'COP', confidence: 'high' }], strategyUsed: 'BROWSER_LIGHT',
+    };
+
+    const confirmation = await manager.confirmPrice(product(url), suspicious);
+
+    // BROWSER_HARD ran the same adapter on the same sources: not a confirmation
+    assert.equal(hard.calls, 1);
+    assert.equal(confirmation.strategyUsed, 'FALLBACK_API');
+});
@@ -0,0 +1,90 @@
+/**
+ * Price sanity guard: plausible ranges, jumps against recent history, separator errors
+ * and what counts as an independent re-fetch
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkPrice, isIndependentRead } from '../scripts/tracking/price-guard.js';
+import { PriceCandidate, PriceSource, TrackingResult } from '../scripts/tracking/types.js';
+
+function candidate(source: PriceSource, amount: number): PriceCandidate {
+    return { source, amount, currency: 'COP', confidence: 'high' };
+}
+
+function read(adapterId: string | undefined, price: number, sources: PriceSource[], strategyUsed = 'HTTP_FAST'): TrackingResult {
+    return {
+        productId: 'p1',
+        success: true,
+        price,
+        currency: 'COP',
+        adapterId,
+        candidates: sources.map(source => candidate(source, price)),
+        strategyUsed,
+    };
+}
+
+test('accepts prices inside the category range with no history', () => {
+    assert.equal(checkPrice(1_299_900, 'COP', [], 'phones'), null);
+    assert.equal(checkPrice(45_000, 'COP', [], 'books'), null);
+});
+
+test('flags prices outside the category range', () => {
+    assert.equal(checkPrice(1_299, 'COP', [], 'phones'), '1299 COP outside phones range 100000-15000000');
+    assert.equal(checkPrice(5_000, 'USD', [], 'phones'), '5000 USD outside phones range 30-3000');
+});
+
+test('falls back to the currency range for unknown categories and currencies without bounds', () => {
+    assert.equal(checkPrice(500, 'COP', [], 'garden'), '500 COP outside COP range 1000-200000000');
+    assert.equal(checkPrice(500, 'COP', [], null), '500 COP outside COP range 1000-200000000');
+    assert.equal(checkPrice(150_000, 'BRL', [], 'phones'), null);
+});
+
+test('accepts moves within the drop and rise limits of the recent median', () => {
+    assert.equal(checkPrice(1_000_000, 'COP', [2_000_000, 2_100_000, 1_900_000]), null);
+    assert.equal(checkPrice(5_500_000, 'COP', [2_000_000, 2_100_000, 1_900_000]), null);
+    // One odd snapshot doesn't move the median
+    assert.equal(checkPrice(2_000_000, 'COP', [2_000_000, 90_000, 2_000_000]), null);
+});
+
+test('flags jumps past the limits, naming a separator error when the ratio is x100 or x1000', () => {
+    // 1.299.900 read as 1.299,9 (thousands separator taken as decimals)
+    assert.equal(
+        checkPrice(1_299.9, 'COP', [1_299_900, 1_299_900]),
+        '-99.9% vs recent median 1299900, looks like a separator error (x1000)'
+    );
+    // Cents read as whole units
+    assert.equal(
+        checkPrice(129_990, 'MXN', [1_299.9]),
+        '9900.0% vs recent median 1299.9, looks like a separator error (x100)'
+    );
+    // A real collapse is flagged without blaming the separator
+    assert.equal(checkPrice(400_000, 'COP', [2_000_000]), '-80.0% vs recent median 2000000');
+    assert.equal(checkPrice(7_000_000, 'COP', [2_000_000]), '250.0% vs recent median 2000000');
+});
+
+test('a re-fetch through another adapter or an API is independent', () => {
+    const original = read('generic', 1_299, ['dom'], 'BROWSER_LIGHT');
+
+    assert.equal(isIndependentRead(original, read('mercadolibre', 1_299, ['state'])), true);
+    assert.equal(isIndependentRead(original, read(undefined, 1_299, ['api'], 'FALLBACK_API')), true);
+});
+
+test('the same adapter confirms only with a price source the first read lacked', () => {
+    const original = read('generic', 1_299, ['json-ld', 'dom'], 'HTTP_FAST');
+
+    // BROWSER_LIGHT parsing the same structured data and DOM again
+    assert.equal(isIndependentRead(original, read('generic', 1_299, ['json-ld', 'dom'], 'BROWSER_LIGHT')), false);
+    // The rendered page exposes the price in its state as well
+    assert.equal(isIndependentRead(original, read('generic', 1_299, ['json-ld', 'state'], 'BROWSER_LIGHT')), true);
+    // A new source that disagrees with the re-fetched price doesn't back it
+    const disagreeing = { ...read('generic', 1_299, ['json-ld'], 'BROWSER_LIGHT'), candidates: [candidate('json-ld', 1_299), candidate('state', 1_299_000)] };
+    assert.equal(isIndependentRead(original, disagreeing), false);
+});
+
+test('a failed re-fetch confirms nothing', () => {
+    const original = read('generic', 1_299, ['dom']);
+    const failed: TrackingResult = { productId: 'p1', success: false, strategyUsed: 'FALLBACK_API' };
+
+    assert.equal(isIndependentRead(original, failed), false);
+});
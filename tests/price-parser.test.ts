@@ -0,0 +1,75 @@
+/**
+ * parsePrice separators, currency detection and confidence per locale
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePrice, getStoreLocale } from '../scripts/utils/price-parser.js';
+
+function parsed(raw: string | number, locale: string, currency?: string) {
+    const { amount, currency: detected, confidence } = parsePrice(raw, locale, { currency });
+    return { amount, currency: detected, confidence };
+}
+
+test('es-CO: dots group thousands and prices have no decimals', () => {
+    assert.deepEqual(parsed('$ 1.299.900', 'es-CO'), { amount: 1299900, currency: 'COP', confidence: 'high' });
+    assert.deepEqual(parsed('$ 129.900', 'es-CO'), { amount: 129900, currency: 'COP', confidence: 'high' });
+    assert.deepEqual(parsed('1 299 900', 'es-CO'), { amount: 1299900, currency: 'COP', confidence: 'medium' });
+});
+
+test('es-MX: commas group thousands and dots mark cents', () => {
+    assert.deepEqual(parsed('$1,299.00', 'es-MX'), { amount: 1299, currency: 'MXN', confidence: 'high' });
+    assert.deepEqual(parsed('MX$ 1,299', 'es-MX'), { amount: 1299, currency: 'MXN', confidence: 'high' });
+    // Same separator as the decimal one, but three digits after it: read as thousands, not trusted
+    assert.deepEqual(parsed('$1.299', 'es-MX'), { amount: 1299, currency: 'MXN', confidence: 'medium' });
+});
+
+test('pt-BR: dots group thousands and commas mark cents', () => {
+    assert.deepEqual(parsed('R$ 1.299,90', 'pt-BR'), { amount: 1299.9, currency: 'BRL', confidence: 'high' });
+    assert.deepEqual(parsed('R$ 49,90', 'pt-BR'), { amount: 49.9, currency: 'BRL', confidence: 'high' });
+});
+
+test('en-US: commas group thousands and dots mark cents', () => {
+    assert.deepEqual(parsed('$12.99', 'en-US'), { amount: 12.99, currency: 'USD', confidence: 'high' });
+    assert.deepEqual(parsed('$1,299.99', 'en-US'), { amount: 1299.99, currency: 'USD', confidence: 'high' });
+});
+
+test('de-DE: dots group thousands and commas mark cents', () => {
+    assert.deepEqual(parsed('1.249,99 €', 'de-DE'), { amount: 1249.99, currency: 'EUR', confidence: 'high' });
+    assert.deepEqual(parsed('49,99 €', 'de-DE'), { amount: 49.99, currency: 'EUR', confidence: 'high' });
+});
+
+test('currency: declared > marker in the text > store locale', () => {
+    assert.equal(parsed('129900', 'es-CO', 'usd').currency, 'USD');
+    assert.equal(parsed('US$ 12.99', 'es-CO').currency, 'USD');
+    assert.equal(parsed('R$ 49,90', 'es-CO').currency, 'BRL');
+    assert.equal(parsed('S/ 199.90', 'es-PE').currency, 'PEN');
+    assert.equal(parsed('£12.99', 'en-US').currency, 'GBP');
+
+    // Hostnames and URLs pick the store's locale
+    assert.deepEqual(parsed('$ 129.900', 'articulo.mercadolibre.com.co'), { amount: 129900, currency: 'COP', confidence: 'high' });
+    assert.deepEqual(parsed('49,99 €', 'https://www.amazon.de/dp/B0TEST1234'), { amount: 49.99, currency: 'EUR', confidence: 'high' });
+});
+
+test('store locale: known stores, then country TLD, else en-US', () => {
+    assert.equal(getStoreLocale('www.exito.com').tag, 'es-CO');
+    assert.equal(getStoreLocale('produto.mercadolivre.com.br').tag, 'pt-BR');
+    assert.equal(getStoreLocale('www.amazon.de').tag, 'de-DE');
+    assert.equal(getStoreLocale('www.amazon.com').tag, 'en-US');
+});
+
+test('confidence drops when the price or its currency is a guess', () => {
+    // No "$" and no declared currency: the locale default is assumed
+    assert.equal(parsed('129.900', 'es-CO').confidence, 'medium');
+    assert.equal(parsed(129900, 'es-CO').confidence, 'medium');
+    assert.equal(parsed(129900, 'es-CO', 'COP').confidence, 'high');
+
+    // Several numbers: the first one is taken
+    assert.deepEqual(parsed('12 cuotas de $ 10.825', 'es-CO'), { amount: 12, currency: 'COP', confidence: 'low' });
+    // Irregular thousands groups and long fractions
+    assert.equal(parsed('$ 1.29.900', 'es-CO').confidence, 'low');
+    assert.equal(parsed('$1.2345', 'en-US').confidence, 'low');
+
+    assert.deepEqual(parsed('Agotado', 'es-CO'), { amount: null, currency: 'COP', confidence: 'low' });
+    assert.deepEqual(parsePrice('', 'es-CO'), { raw: null, amount: null, currency: null, confidence: 'low' });
+});
@@ -0,0 +1,145 @@
+/**
+ * Proxy pool through local proxy stand-ins: sticky assignment, rotation on bot blocks and the
+ * failure cool-down, with HTTP_FAST requests going through the manager
+ */
+
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { StrategyManager } from '../scripts/tracking/manager.js';
+import { ProxyPool, parseProxyUrl } from '../scripts/tracking/proxy-pool.js';
+import { TrackingErrorCode, ProductToTrack, ProxyConfig } from '../scripts/tracking/types.js';
+
+const PRODUCT_PAGE = `<html><head><title>Cafetera</title>
+<meta itemprop="price" content="129900"><meta itemprop="priceCurrency" content="COP"></head>
+<body><h1>Cafetera</h1></body></html>`;
+
+interface ProxyStandIn {
+    proxy: ProxyConfig;
+    /** Tunnels opened through it */
+    tunnels: number;
+    server: net.Server;
+}
+
+const servers: net.Server[] = [];
+let origin: http.Server;
+let wall: http.Server;
+
+function listen(server: net.Server): Promise<number> {
+    servers.push(server);
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)));
+}
+
+/**
+ * HTTP proxy that tunnels every CONNECT to the given port (the origin, or a bot wall)
+ */
+async function startProxy(targetPort: () => number): Promise<ProxyStandIn> {
+    const server = http.createServer((req, res) => res.writeHead(405).end());
+    const standIn: ProxyStandIn = { proxy: null!, tunnels: 0, server };
+    server.on('connect', (req, socket, head) => {
+        standIn.tunnels++;
+        const upstream = net.connect(targetPort(), '127.0.0.1', () => {
+            socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+            upstream.write(head);
+            upstream.pipe(socket);
+            socket.pipe(upstream);
+        });
+        upstream.on('error', () => socket.destroy());
+        socket.on('error', () => upstream.destroy());
+    });
+    standIn.proxy = parseProxyUrl(`http://127.0.0.1:${await listen(server)}`);
+    return standIn;
+}
+
+let originPort = 0;
+let wallPort = 0;
+
+before(async () => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+
+    origin = http.createServer((req, res) => res.writeHead(200, { 'Content-Type': 'text/html' }).end(PRODUCT_PAGE));
+    wall = http.createServer((req, res) => res.writeHead(403).end('Forbidden'));
+    originPort = await listen(origin);
+    wallPort = await listen(wall);
+});
+
+after(() => {
+    for (const server of servers) {
+        (server as http.Server).closeAllConnections?.();
+        server.close();
+    }
+});
+
+/**
+ * Manager with only HTTP_FAST, so nothing escalates to a browser
+ */
+function managerWith(proxies: ProxyConfig[]): StrategyManager {
+    return new StrategyManager({
+        proxies,
+        retryPolicy: { maxAttempts: 1 },
+        circuitBreakerThreshold: 100,
+        strategies: { BROWSER_LIGHT: null, BROWSER_HARD: null, FALLBACK_API: null },
+    });
+}
+
+function product(id: string): ProductToTrack {
+    return { id, merchant: 'test', original_url: `http://127.0.0.1:${originPort}/producto/${id}`, title: 'Cafetera' };
+}
+
+test('keeps a domain on the same proxy while it works', async () => {
+    const first = await startProxy(() => originPort);
+    const second = await startProxy(() => originPort);
+    const manager = managerWith([first.proxy, second.proxy]);
+
+    const results = [];
+    for (const id of ['a', 'b', 'c']) {
+        results.push(await manager.trackProduct(product(id)));
+    }
+
+    assert.ok(results.every(r => r.success && r.price === 129900));
+    assert.deepEqual(new Set(results.map(r => r.proxyUsed)), new Set([first.proxy.id]));
+    assert.equal(second.tunnels, 0);
+});
+
+test('moves a domain to the next proxy after a bot block', async () => {
+    const blocked = await startProxy(() => wallPort);
+    const healthy = await startProxy(() => originPort);
+    const manager = managerWith([blocked.proxy, healthy.proxy]);
+
+    const first = await manager.trackProduct(product('a'));
+    assert.equal(first.errorCode, TrackingErrorCode.BOT_BLOCKED);
+    assert.equal(first.proxyUsed, blocked.proxy.id);
+
+    const second = await manager.trackProduct(product('b'));
+    assert.equal(second.success, true);
+    assert.equal(second.proxyUsed, healthy.proxy.id);
+    assert.equal(blocked.tunnels, 1);
+});
+
+test('benches a proxy after repeated failures and uses it again after the cool-down', async () => {
+    // Nothing listens on the dead proxy's port: connections are refused
+    const dead = await startProxy(() => originPort);
+    await new Promise(resolve => dead.server.close(resolve));
+    const healthy = await startProxy(() => originPort);
+    const manager = managerWith([dead.proxy, healthy.proxy]);
+
+    for (const id of ['a', 'b', 'c']) {
+        const result = await manager.trackProduct(product(id));
+        assert.equal(result.errorCode, TrackingErrorCode.NETWORK_ERROR);
+        assert.equal(result.proxyUsed, dead.proxy.id);
+    }
+
+    const afterBench = await manager.trackProduct(product('d'));
+    assert.equal(afterBench.success, true);
+    assert.equal(afterBench.proxyUsed, healthy.proxy.id);
+
+    // 10 minutes later the benched proxy is back in rotation
+    const pool = (manager as any).proxyPool as ProxyPool;
+    const now = Date.now();
+    mock.method(Date, 'now', () => now + 10 * 60 * 1000 + 1);
+    assert.equal(pool.assign('other.example')?.id, dead.proxy.id);
+});
@@ -0,0 +1,70 @@
+/**
+ * Shopify storefront (tests/fixtures/shopify) replayed through HTTP_FAST: the shop is recognized
+ * from its page, then read from /products/<handle>.js
+ */
+
+import { test, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { HttpFastStrategy } from '../scripts/tracking/strategies/http-fast.js';
+import { listFixtureProducts } from '../scripts/tracking/fixtures.js';
+import { TrackingErrorCode, TrackingResult } from '../scripts/tracking/types.js';
+
+mock.method(console, 'log', () => {});
+mock.method(console, 'error', () => {});
+
+before(() => {
+    process.env.TRACKING_FIXTURES = 'replay';
+    process.env.TRACKING_FIXTURES_DIR = path.resolve('tests/fixtures/shopify');
+});
+
+async function track(productId: string, variantKey: string | null = null): Promise<TrackingResult> {
+    const product = listFixtureProducts().find(p => p.id === productId);
+    assert.ok(product, `no fixture for ${productId}`);
+    return new HttpFastStrategy().track({ ...product, variant_key: variantKey });
+}
+
+test('recognizes the shop from its page and prices the first available variant', async () => {
+    const result = await track('shopify-camiseta');
+
+    assert.equal(result.success, true);
+    assert.equal(result.adapterId, 'shopify');
+    assert.equal(result.price, 89900);
+    assert.equal(result.currency, 'COP');
+    assert.equal(result.priceDetails?.listPrice, 119900);
+    assert.equal(result.listing?.availability, 'in_stock');
+    assert.deepEqual(result.listing?.seller, { id: null, name: 'Tienda Ejemplo' });
+});
+
+test('prices the variant the URL asks for', async () => {
+    const result = await track('shopify-camiseta-l');
+
+    assert.equal(result.success, true);
+    assert.equal(result.price, 94900);
+    assert.equal(result.priceDetails, undefined);
+});
+
+test("prices the variant key's SKU, not the first available variant", async () => {
+    const result = await track('shopify-camiseta', 'sku=cam-bas-m-blanco');
+
+    assert.equal(result.success, true);
+    assert.equal(result.price, 79900);
+    assert.equal(result.listing?.availability, 'in_stock');
+});
+
+test("matches a variant key's color and size on the variant options", async () => {
+    const sold = await track('shopify-camiseta', 'color=negro;size=s');
+    assert.equal(sold.price, 89900);
+    assert.equal(sold.listing?.availability, 'out_of_stock');
+
+    const white = await track('shopify-camiseta', 'color=blanco;size=m');
+    assert.equal(white.price, 79900);
+});
+
+test('reports a tracked SKU the shop no longer lists as unavailable, without pricing another variant', async () => {
+    const result = await track('shopify-camiseta', 'sku=cam-bas-xl-negro');
+
+    assert.equal(result.success, false);
+    assert.equal(result.errorCode, TrackingErrorCode.PRODUCT_UNAVAILABLE);
+    assert.equal(result.price, undefined);
+});
@@ -0,0 +1,48 @@
+/**
+ * Store definition files (stores/*.json): loading through StrategyManager.init() and
+ * the check:stores run against their recorded fixtures (fixtures/tracking)
+ */
+
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import { StrategyManager, findDomainConfig } from '../scripts/tracking/manager.js';
+import { getAdapterForUrl } from '../scripts/tracking/adapters/index.js';
+import { readStoreDefinitions } from '../scripts/tracking/store-definitions.js';
+
+mock.method(console, 'log', () => {});
+
+const ALKOSTO_URL = 'https://www.alkosto.com/televisor-samsung-55-pulgadas-crystal-uhd-4k-un55du7000/p/8806095569542';
+
+test('every definition in stores/ is valid and has a test', () => {
+    const { definitions, invalid } = readStoreDefinitions();
+
+    assert.deepEqual([...invalid.keys()], []);
+    assert.ok(definitions.length > 0);
+    for (const definition of definitions) {
+        assert.ok(definition.tests?.length, `${definition.file} has no tests`);
+    }
+});
+
+test('StrategyManager.init() registers the definitions and their domain config', async () => {
+    assert.equal(getAdapterForUrl(ALKOSTO_URL).id, 'generic');
+    assert.equal(findDomainConfig('alkosto.com'), null);
+
+    await new StrategyManager({ offline: true }).init();
+
+    assert.equal(getAdapterForUrl(ALKOSTO_URL).id, 'alkosto');
+    assert.deepEqual(findDomainConfig('alkosto.com')?.config, {
+        strategy: 'HTTP_FAST',
+        difficulty: 'easy',
+        rateLimit: { maxConcurrent: 1, minIntervalMs: 1500 },
+    });
+});
+
+test('check:stores passes every definition test against its recorded fixture', () => {
+    const { TRACKING_FIXTURES, TRACKING_FIXTURES_DIR, ...env } = process.env;
+    const run = spawnSync(process.execPath, ['--import', 'tsx', 'scripts/check-stores.ts'], { env, encoding: 'utf-8', timeout: 60000 });
+
+    assert.equal(run.status, 0, run.stdout + run.stderr);
+    assert.match(run.stdout, /✅ alkosto\.json: /);
+    assert.match(run.stdout, /0 invalid, 0 failure\(s\)/);
+});
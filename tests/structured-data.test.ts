@@ -0,0 +1,180 @@
+/**
+ * Structured data reader: JSON-LD (@graph, @id references, AggregateOffer), microdata and RDFa
+ * offers, and the offer picked to represent the page
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { StructuredOffer, pickOffer, readStructuredData } from '../scripts/tracking/adapters/structured-data.js';
+
+const URL_CO = 'https://www.tiendaejemplo.co/producto/audifonos-inalambricos';
+
+function jsonLd(...blocks: string[]): string {
+    return blocks.map(block => `<script type="application/ld+json">${block}</script>`).join('\n');
+}
+
+test('resolves offers and sellers referenced by @id inside a @graph', () => {
+    const html = jsonLd(JSON.stringify({
+        '@context': 'https://schema.org',
+        '@graph': [
+            { '@type': 'Organization', '@id': '#tienda', name: 'Tienda Ejemplo' },
+            { '@type': 'Product', '@id': '#producto', name: 'Audífonos inalámbricos', sku: 'AUD-100', offers: { '@id': '#oferta' } },
+            {
+                '@type': 'Offer',
+                '@id': '#oferta',
+                price: 249900,
+                priceCurrency: 'COP',
+                availability: 'https://schema.org/InStock',
+                seller: { '@id': '#tienda' },
+                priceSpecification: [{ '@type': 'UnitPriceSpecification', priceType: 'https://schema.org/ListPrice', price: 299900 }],
+            },
+        ],
+    }));
+
+    const offers = readStructuredData(html, URL_CO);
+
+    assert.equal(offers.length, 1);
+    assert.equal(offers[0].source, 'json-ld');
+    assert.equal(offers[0].productName, 'Audífonos inalámbricos');
+    assert.equal(offers[0].sku, 'AUD-100');
+    assert.equal(offers[0].price.amount, 249900);
+    assert.equal(offers[0].price.currency, 'COP');
+    assert.equal(offers[0].listPrice, 299900);
+    assert.equal(offers[0].availability, 'in_stock');
+    assert.deepEqual(offers[0].seller, { id: '#tienda', name: 'Tienda Ejemplo' });
+});
+
+test('reads an AggregateOffer range and its offers, which inherit its currency', () => {
+    const html = jsonLd(JSON.stringify({
+        '@context': 'https://schema.org',
+        '@type': 'Product',
+        name: 'Audífonos inalámbricos',
+        offers: {
+            '@type': 'AggregateOffer',
+            lowPrice: '229.900',
+            highPrice: '279.900',
+            priceCurrency: 'COP',
+            offers: [
+                { '@type': 'Offer', sku: 'AUD-100-N', price: '229.900', availability: 'OutOfStock' },
+                { '@type': 'Offer', sku: 'AUD-100-B', price: '279.900', availability: 'InStock' },
+            ],
+        },
+    }));
+
+    const offers = readStructuredData(html, URL_CO);
+
+    assert.deepEqual(offers.map(o => [o.sku, o.price.amount, o.price.currency, o.highPrice, o.availability]), [
+        [null, 229900, 'COP', 279900, 'unknown'],
+        ['AUD-100-N', 229900, 'COP', null, 'out_of_stock'],
+        ['AUD-100-B', 279900, 'COP', null, 'in_stock'],
+    ]);
+});
+
+test('tolerates the raw newlines and trailing commas stores leave in JSON-LD', () => {
+    const html = jsonLd(`{
+        "@type": "Product",
+        "name": "Audífonos
+        inalámbricos",
+        "offers": { "@type": "Offer", "price": "249900", "priceCurrency": "COP", },
+    }`, 'not json at all');
+
+    const offers = readStructuredData(html, URL_CO);
+
+    assert.equal(offers.length, 1);
+    assert.equal(offers[0].price.amount, 249900);
+});
+
+test('reads microdata offers, ignoring properties of nested items', () => {
+    const html = `
+        <div itemscope itemtype="https://schema.org/Product">
+            <div itemprop="brand" itemscope itemtype="https://schema.org/Brand"><span itemprop="name">Sonido</span></div>
+            <h1 itemprop="name">Audífonos inalámbricos</h1>
+            <meta itemprop="sku" content="AUD-100">
+            <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+                <span itemprop="price" content="249900">$ 249.900</span>
+                <meta itemprop="priceCurrency" content="COP">
+                <link itemprop="availability" href="https://schema.org/InStock">
+                <div itemprop="priceSpecification" itemscope itemtype="https://schema.org/UnitPriceSpecification">
+                    <meta itemprop="priceType" content="https://schema.org/StrikethroughPrice">
+                    <span itemprop="price">299.900</span>
+                </div>
+                <div itemprop="seller" itemscope itemtype="https://schema.org/Organization"><span itemprop="name">Tienda Ejemplo</span></div>
+            </div>
+        </div>`;
+
+    const [offer] = readStructuredData(html, URL_CO);
+
+    assert.equal(offer.source, 'microdata');
+    assert.equal(offer.productName, 'Audífonos inalámbricos');
+    assert.equal(offer.sku, 'AUD-100');
+    assert.equal(offer.price.amount, 249900);
+    assert.equal(offer.price.currency, 'COP');
+    assert.equal(offer.listPrice, 299900);
+    assert.equal(offer.availability, 'in_stock');
+    assert.deepEqual(offer.seller, { id: null, name: 'Tienda Ejemplo' });
+});
+
+test('reads RDFa offers with prefixed properties', () => {
+    const html = `
+        <div vocab="https://schema.org/" typeof="schema:Product">
+            <span property="schema:name">Audífonos inalámbricos</span>
+            <div property="schema:offers" typeof="schema:Offer">
+                <span property="schema:price" content="249900">$ 249.900</span>
+                <meta property="schema:priceCurrency" content="COP">
+                <link property="schema:availability" href="https://schema.org/OutOfStock">
+            </div>
+        </div>`;
+
+    const [offer] = readStructuredData(html, URL_CO);
+
+    assert.equal(offer.source, 'rdfa');
+    assert.equal(offer.productName, 'Audífonos inalámbricos');
+    assert.equal(offer.price.amount, 249900);
+    assert.equal(offer.availability, 'out_of_stock');
+});
+
+test('lists JSON-LD offers before microdata and RDFa ones', () => {
+    const html = `
+        <div typeof="Offer"><span property="price" content="3"></span></div>
+        <div itemscope itemtype="https://schema.org/Offer"><meta itemprop="price" content="2"></div>
+        ${jsonLd('{"@type": "Offer", "price": 1}')}`;
+
+    assert.deepEqual(readStructuredData(html, URL_CO).map(o => [o.source, o.price.amount]), [
+        ['json-ld', 1],
+        ['microdata', 2],
+        ['rdfa', 3],
+    ]);
+});
+
+function offer(amount: number | null, availability: StructuredOffer['availability']): StructuredOffer {
+    return {
+        source: 'json-ld',
+        productName: null,
+        sku: null,
+        image: null,
+        price: { amount, currency: 'COP', confidence: 'high', raw: amount === null ? null : String(amount) },
+        highPrice: null,
+        listPrice: null,
+        availability,
+        seller: null,
+        url: null,
+    };
+}
+
+test('picks a priced offer in stock, then one not known to be sold out, then any priced one', () => {
+    const soldOut = offer(100, 'out_of_stock');
+    const unknown = offer(200, 'unknown');
+    const inStock = offer(300, 'in_stock');
+
+    assert.equal(pickOffer([soldOut, unknown, inStock]), inStock);
+    assert.equal(pickOffer([soldOut, unknown]), unknown);
+    assert.equal(pickOffer([offer(0, 'in_stock'), soldOut]), soldOut);
+});
+
+test('without a priced offer, picks one that still tells the availability', () => {
+    const unpricedSoldOut = offer(null, 'out_of_stock');
+
+    assert.equal(pickOffer([offer(null, 'unknown'), unpricedSoldOut]), unpricedSoldOut);
+    assert.equal(pickOffer([offer(null, 'unknown')]), null);
+    assert.equal(pickOffer([]), null);
+});
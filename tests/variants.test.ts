@@ -0,0 +1,67 @@
+/**
+ * Size/color variant picking (extractVariant) and the price candidates it reports
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { VariantOffer, extractVariant } from '../scripts/tracking/adapters/variants.js';
+import { StructuredOffer } from '../scripts/tracking/adapters/structured-data.js';
+import { resolvePriceConsensus } from '../scripts/tracking/consensus.js';
+import { parsePrice } from '../scripts/utils/price-parser.js';
+
+function offer(sku: string, size: string, amount: number): VariantOffer {
+    return {
+        sku,
+        color: '01',
+        colorName: 'Negro',
+        size,
+        price: parsePrice(amount, 'en-US'),
+        listPrice: null,
+        availability: 'in_stock',
+    };
+}
+
+/** The page's JSON-LD offer, which describes its default size */
+function structured(sku: string, amount: number): StructuredOffer {
+    return {
+        source: 'json-ld',
+        productName: 'Oversize T-shirt',
+        sku,
+        image: null,
+        price: parsePrice(amount, 'en-US', { currency: 'USD' }),
+        highPrice: null,
+        listPrice: null,
+        availability: 'in_stock',
+        seller: null,
+        url: null,
+    };
+}
+
+const OFFERS = [offer('1001', 'M', 99.95), offer('1002', 'XL', 119.95)];
+
+test("a tracked size is priced from its own offer, not the page's default one", () => {
+    const result = extractVariant(OFFERS, { size: 'xl' }, { title: 'Oversize T-shirt', image: null, structured: structured('1001', 99.95) });
+    const consensus = resolvePriceConsensus(result.price.candidates!);
+
+    assert.equal(result.price.amount, 119.95);
+    assert.equal(result.sku, '1002');
+    assert.deepEqual(result.price.candidates!.map(c => [c.source, c.amount]), [['state', 119.95]]);
+    assert.equal(consensus.winner?.amount, 119.95);
+});
+
+test("the page's structured offer counts as a candidate when it is the tracked variant's", () => {
+    const result = extractVariant(OFFERS, { size: 'm' }, { title: 'Oversize T-shirt', image: null, structured: structured('1001', 99.95) });
+    const consensus = resolvePriceConsensus(result.price.candidates!);
+
+    assert.deepEqual(result.price.candidates!.map(c => [c.source, c.amount]), [['state', 99.95], ['json-ld', 99.95]]);
+    assert.equal(consensus.winner?.amount, 99.95);
+    assert.equal(consensus.needsReview, false);
+});
+
+test('without variant state the structured offer prices the page', () => {
+    const result = extractVariant([], null, { title: 'Oversize T-shirt', image: null, structured: structured('1001', 99.95) });
+
+    assert.equal(result.price.amount, 99.95);
+    assert.equal(result.sku, '1001');
+    assert.equal(result.listing?.availability, 'in_stock');
+});
@@ -0,0 +1,66 @@
+/**
+ * VTEX catalog search responses (tests/fixtures/vtex) replayed through HTTP_FAST
+ */
+
+import { test, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { HttpFastStrategy } from '../scripts/tracking/strategies/http-fast.js';
+import { listFixtureProducts } from '../scripts/tracking/fixtures.js';
+import { TrackingErrorCode, TrackingResult } from '../scripts/tracking/types.js';
+
+mock.method(console, 'log', () => {});
+mock.method(console, 'error', () => {});
+
+before(() => {
+    process.env.TRACKING_FIXTURES = 'replay';
+    process.env.TRACKING_FIXTURES_DIR = path.resolve('tests/fixtures/vtex');
+});
+
+async function track(productId: string): Promise<TrackingResult> {
+    const product = listFixtureProducts().find(p => p.id === productId);
+    assert.ok(product, `no fixture for ${productId}`);
+    return new HttpFastStrategy().track(product);
+}
+
+test('prices the stocked SKU with list price, installments and the card promotion', async () => {
+    const result = await track('vtex-exito-tv');
+
+    assert.equal(result.success, true);
+    assert.equal(result.price, 1899900);
+    assert.equal(result.currency, 'COP');
+    assert.deepEqual(result.priceDetails, {
+        listPrice: 2499900,
+        discountPercent: 24,
+        installments: [{ count: 12, amount: 158325, interestFree: true }],
+        conditionalPrices: [{ amount: 1709910, condition: 'Tarjeta Éxito 10% adicional' }],
+    });
+    assert.equal(result.listing?.availability, 'in_stock');
+    assert.equal(result.listing?.stockHint, '3 disponibles');
+    assert.deepEqual(result.listing?.seller, { id: '1', name: 'Exito' });
+});
+
+test('prices the SKU the URL asks for', async () => {
+    const result = await track('vtex-carulla-cafe');
+
+    assert.equal(result.success, true);
+    assert.equal(result.price, 32900);
+    assert.equal(result.currency, 'COP');
+    // Same list price: no discount to report
+    assert.equal(result.priceDetails?.listPrice, null);
+});
+
+test('reports a sold-out product as unavailable, not as a missing price', async () => {
+    const result = await track('vtex-jumbo-sold-out');
+
+    assert.equal(result.success, false);
+    assert.equal(result.errorCode, TrackingErrorCode.PRODUCT_UNAVAILABLE);
+    assert.equal(result.listing?.availability, 'out_of_stock');
+});
+
+test('reports a product missing from the catalog as not found', async () => {
+    const result = await track('vtex-exito-delisted');
+
+    assert.equal(result.success, false);
+    assert.equal(result.errorCode, TrackingErrorCode.NOT_FOUND_404);
+});